@@ -1,12 +1,100 @@
+import {AuthenticationError} from './errors/authenticationerror';
+import {AttemptStore} from './interfaces/attemptstore';
+import {
+  AuthEventListener,
+  AuthEventListeners,
+  AuthEvents,
+} from './interfaces/events';
 import {SessionOptions} from './interfaces/session';
-import {AuthenticateOptions, Strategy} from './interfaces/strategy';
+import {
+  AuthenticateOptions,
+  LinkAccount,
+  Strategy,
+} from './interfaces/strategy';
 import {DeserializeUser, SerializeUser} from './interfaces/user';
-import {AuthenticateCallback, authenticate} from './middleware/authenticate';
-import {SessionManager} from './sessionmanager';
+import {
+  AuthenticateCallback,
+  StrategySpecifier,
+  authenticate,
+  isStrategy,
+} from './middleware/authenticate';
+import {HandlersOptions, handlers} from './middleware/handlers';
+import {
+  AuthorizeOptions,
+  authorize,
+  guardRouteHandler,
+} from './middleware/authorize';
+import {ProtectOptions, protect} from './middleware/protect';
+import {MiddlewareFunction, RouteHandler} from './middleware/types';
+import {LogInOptions, SessionManager} from './sessionmanager';
+import {MemoryAttemptStore} from './stores/memoryattempts';
 import {SessionStrategy} from './strategies/session';
+import {
+  Assurance,
+  AssuranceRequirement,
+  assuranceOf,
+  meetsAssurance,
+} from './utils/assurance';
+import {
+  AuthorizationRequirements,
+  checkAuthorization,
+} from './utils/authorization';
+import {CSRF_FIELD} from './utils/csrf';
+import {requestMetadata} from './utils/events';
+import {cachedForRequest, setForRequest} from './utils/requestcache';
+import {effectiveLogin, isExpired} from './utils/session';
+import {headers} from 'next/headers';
+import {redirect} from 'next/navigation';
 
 type DefaultInfo = Object;
 
+export interface RequireAuthorizationOptions<U>
+  extends AuthorizationRequirements<U>,
+    RequireUserOptions {
+  /**
+   * URL to which users who are not allowed access are redirected, defaults
+   * to `redirectTo`.
+   */
+  forbiddenRedirectTo?: string;
+}
+
+export interface RequireAssuranceOptions
+  extends AssuranceRequirement,
+    RequireUserOptions {
+  /**
+   * URL of the page on which users verify another factor.
+   */
+  stepUpRedirectTo: string;
+}
+
+export interface RequireUserOptions {
+  /**
+   * URL of the login page to which visitors who are not logged in are
+   * redirected.
+   */
+  redirectTo: string;
+
+  /**
+   * Path of the page being rendered, passed to the login page in the
+   * `returnTo` query parameter, which the login route of `handlers()` saves
+   * for after login.  Next.js does not expose the pathname to Server
+   * Components, so it must be given for the user to be brought back.
+   */
+  returnTo?: string;
+}
+
+/**
+ * Add `returnTo` to the query string of `url`, for the page it leads to to
+ * bring the user back.
+ */
+function withReturnTo(url: string, returnTo?: string): string {
+  if (!returnTo) {
+    return url;
+  }
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}returnTo=${encodeURIComponent(returnTo)}`;
+}
+
 interface InfoTransformer<T = DefaultInfo, A = T> {
   (info: T): Promise<A>;
 }
@@ -18,13 +106,23 @@ export class Authenticator<U, SU> {
   private _serializers: SerializeUser<U, SU>[] = [];
   private _deserializers: DeserializeUser<U, SU>[] = [];
   private _infoTransformers: InfoTransformer[] = [];
+  private _listeners: {
+    [event: string]: AuthEventListener<any, unknown>[];
+  } = {};
   public _sessionManager!: SessionManager<U, SU>;
+  public _attemptStore: AttemptStore = new MemoryAttemptStore();
 
   constructor(private _sessionOptions: SessionOptions) {
     this.use(
       new SessionStrategy(
         this._sessionOptions,
         this.deserializeUser.bind(this),
+        async (user: SU, context) => {
+          await this._emit('sessionRevoked', {
+            user,
+            request: requestMetadata(context.request),
+          });
+        },
       ),
     );
 
@@ -80,18 +178,94 @@ export class Authenticator<U, SU> {
     return this;
   }
 
+  /**
+   * Register a listener of authentication events, such as to keep an audit
+   * log.
+   *
+   * - `login`: a strategy authenticated a user, or `signIn()` logged one in.
+   *   Users restored from the session do not log in again.
+   * - `logout`: a user logged out, with the logout route of `handlers()` or
+   *   `signOut()`.
+   * - `failure`: authentication failed.
+   * - `error`: an error was raised while authenticating.
+   * - `sessionRevoked`: a user who could no longer be deserialized was
+   *   removed from their session.
+   *
+   * Listeners are awaited in the order in which they were registered, and
+   * errors they raise are raised by authentication, except those of `error`
+   * listeners, which are ignored.  A `login` listener may veto the login by
+   * resolving with a message: authentication then fails with a `403` status
+   * and that message in the body of the response, rather than as a challenge,
+   * and later listeners are not called.
+   *
+   * Examples:
+   *
+   *     passport.on('login', async ({user}) => {
+   *       if (user.banned) {
+   *         return 'This account is suspended';
+   *       }
+   *     });
+   *
+   *     passport.on('failure', async ({strategy, challenge, request}) => {
+   *       await audit.log('login failed', {strategy, challenge, ...request});
+   *     });
+   *
+   * @public
+   */
+  on<K extends keyof AuthEvents<U, SU>>(
+    event: K,
+    listener: AuthEventListeners<U, SU>[K],
+  ): this {
+    (this._listeners[event] ??= []).push(listener);
+    return this;
+  }
+
+  /**
+   * Deregister a listener registered with `on()`.
+   *
+   * @public
+   */
+  off<K extends keyof AuthEvents<U, SU>>(
+    event: K,
+    listener: AuthEventListeners<U, SU>[K],
+  ): this {
+    this._listeners[event] = this._listeners[event]?.filter(
+      l => l !== listener,
+    );
+    return this;
+  }
+
+  /**
+   * Call the listeners of `event`, resolving with the message of the first
+   * to veto it.
+   */
+  async _emit<K extends keyof AuthEvents<U, SU>>(
+    event: K,
+    payload: AuthEvents<U, SU>[K],
+  ): Promise<string | void> {
+    for (const listener of this._listeners[event] ?? []) {
+      const veto = await listener(payload);
+      if (typeof veto === 'string') {
+        return veto;
+      }
+    }
+  }
+
   /**
    * Create authentication middleware.
    *
    * Returns middleware that authenticates the request by applying the given
    * strategy (or strategies).
    *
+   * The middleware resolves with the response of the strategy chain, such as
+   * a redirect or a `401 Unauthorized`, once authentication has completed.
+   *
    * Examples:
    *
-   *     passport.authenticate('local', function(err, user) {
-   *       if (!user) { return res.redirect('/login'); }
-   *       res.end('Authenticated!');
-   *     })(req, res);
+   *     export const middleware = passport.authenticate('local', {}, async (err, user) => {
+   *       if (!user) { return NextResponse.redirect('https://www.example.com/login'); }
+   *       return NextResponse.next();
+   *     });
    *
    * @public
    *
@@ -103,12 +277,413 @@ export class Authenticator<U, SU> {
    */
   authenticate(
     strategy: string | string[] | Strategy<U>,
-    options: AuthenticateOptions,
+    options: AuthenticateOptions<U>,
     callback?: AuthenticateCallback<U>,
   ) {
     return authenticate(this, strategy, options, callback);
   }
 
+  /**
+   * Create route handlers for login, callback and logout endpoints.
+   *
+   * Returns `GET` and `POST` handlers to export from a catch-all route, which
+   * authenticate with the strategy named in the path, using the options
+   * given for that route.
+   *
+   * Examples:
+   *
+   *     // app/auth/[...passport]/route.ts
+   *     export const {GET, POST} = passport.handlers({
+   *       strategies: {
+   *         local: {login: {successRedirect: '/', failureRedirect: '/login'}},
+   *       },
+   *       logout: {redirect: '/'},
+   *     });
+   *
+   * @public
+   */
+  handlers(options: HandlersOptions) {
+    return handlers(this, options);
+  }
+
+  /**
+   * Create middleware that protects paths according to rules.
+   *
+   * Each rule maps path patterns to the strategies with which requests to
+   * them authenticate, what happens to those that fail, and which users may
+   * access them.
+   *
+   * Examples:
+   *
+   *     // middleware.ts
+   *     export const middleware = passport.protect({
+   *       rules: [{path: '/dashboard/**', redirectTo: '/login'}],
+   *     });
+   *
+   *     export const config = {matcher: '/dashboard/:path*'};
+   *
+   * @public
+   */
+  protect(options: ProtectOptions<U>) {
+    return protect(this, options);
+  }
+
+  /**
+   * Create middleware that checks that the user is allowed access.
+   *
+   * The request is authenticated with the given strategies, and the user and
+   * transformed auth info are checked against the required scopes, roles and
+   * predicate.  Users who are not allowed access are rejected with
+   * `403 Forbidden`, along with an RFC 6750 `insufficient_scope` challenge
+   * when they used a bearer token.
+   *
+   * Given a route handler, returns a route handler that only runs it once the
+   * request is allowed.
+   *
+   * Given a strategy instead, creates middleware that links the account the
+   * strategy authenticates to the logged in user with `link`, rather than
+   * logging in as it.  The session's user is left as it is, and the request
+   * otherwise completes as with {@link Authenticator#authenticate `authenticate()`}.
+   *
+   * Examples:
+   *
+   *     export const GET = passport.authorize(
+   *       {strategies: 'bearer', scopes: ['invoices:read']},
+   *       async req => Response.json(await listInvoices()),
+   *     );
+   *
+   *     export const GET = passport.authorize(
+   *       'github',
+   *       {successRedirect: '/settings', failureRedirect: '/settings'},
+   *       async (user, account) => {
+   *         await Account.link(user.id, 'github', account.id);
+   *       },
+   *     );
+   *
+   * @public
+   */
+  authorize(options: AuthorizeOptions<U>): MiddlewareFunction;
+  authorize(options: AuthorizeOptions<U>, handler: RouteHandler): RouteHandler;
+  authorize(
+    strategy: StrategySpecifier<U>,
+    options: AuthenticateOptions<U>,
+    link: LinkAccount<U>,
+  ): MiddlewareFunction;
+  authorize(
+    optionsOrStrategy: AuthorizeOptions<U> | StrategySpecifier<U>,
+    handlerOrOptions?: RouteHandler | AuthenticateOptions<U>,
+    link?: LinkAccount<U>,
+  ): MiddlewareFunction | RouteHandler {
+    if (
+      typeof optionsOrStrategy === 'string' ||
+      Array.isArray(optionsOrStrategy) ||
+      isStrategy(optionsOrStrategy as Strategy<U>)
+    ) {
+      if (!link) {
+        throw new TypeError('authorize() requires a function to link accounts');
+      }
+      return authenticate(this, optionsOrStrategy as StrategySpecifier<U>, {
+        ...(handlerOrOptions as AuthenticateOptions<U>),
+        linkAccount: link,
+      });
+    }
+
+    const middleware = authorize(
+      this,
+      optionsOrStrategy as AuthorizeOptions<U>,
+    );
+    return handlerOrOptions
+      ? guardRouteHandler(middleware, handlerOrOptions as RouteHandler)
+      : middleware;
+  }
+
+  /**
+   * Get the user who is logged in to the current request.
+   *
+   * Meant for Server Components, route handlers and server actions, where the
+   * session is read from `cookies()`.  The user is deserialized at most once
+   * per request, however many components ask for it.  Resolves with
+   * `undefined` when nobody is logged in, or when the user has since been
+   * removed.
+   *
+   * Examples:
+   *
+   *     export default async function Page() {
+   *       const user = await passport.currentUser();
+   *       return user ? <Dashboard user={user} /> : <Landing />;
+   *     }
+   *
+   * @public
+   */
+  async currentUser(): Promise<U | undefined> {
+    return cachedForRequest(this, 'user', async () => {
+      const session = await this._sessionManager.getSession();
+      const {user} = effectiveLogin(session);
+      if (user === undefined || isExpired(session, this._sessionOptions)) {
+        return undefined;
+      }
+      return (await this.deserializeUser(user)) || undefined;
+    });
+  }
+
+  /**
+   * Get the user who is impersonating the user logged in to the current
+   * request, with {@link SessionManager#impersonate `impersonate()`}.
+   * Resolves with `undefined` when nobody is.
+   *
+   * Examples:
+   *
+   *     export default async function Banner() {
+   *       const impersonator = await passport.impersonator();
+   *       return impersonator && <StopImpersonatingButton />;
+   *     }
+   *
+   * @public
+   */
+  async impersonator(): Promise<U | undefined> {
+    return cachedForRequest(this, 'impersonator', async () => {
+      const session = await this._sessionManager.getSession();
+      const {impersonator} = effectiveLogin(session);
+      if (
+        impersonator === undefined ||
+        isExpired(session, this._sessionOptions)
+      ) {
+        return undefined;
+      }
+      return (await this.deserializeUser(impersonator)) || undefined;
+    });
+  }
+
+  /**
+   * Get the auth info of the current login session, as transformed by the
+   * functions registered with `transformAuthInfo()`.
+   *
+   * The transformation runs at most once per request.  Resolves with
+   * `undefined` when nobody is logged in.
+   *
+   * @public
+   */
+  async authInfo(): Promise<any> {
+    return cachedForRequest(this, 'authInfo', async () => {
+      const session = await this._sessionManager.getSession();
+      const {user, authInfo} = effectiveLogin(session);
+      if (user === undefined || isExpired(session, this._sessionOptions)) {
+        return undefined;
+      }
+      return this.transformAuthInfo(authInfo ?? {});
+    });
+  }
+
+  /**
+   * Get the CSRF token of the current session, to submit with requests that
+   * log in or out.  Resolves with `undefined` before a session exists, in
+   * which case such requests are checked by their `Origin` header instead.
+   *
+   * @public
+   */
+  async csrfToken(): Promise<string | undefined> {
+    const session = await this._sessionManager.getSession();
+    return session.csrfToken;
+  }
+
+  /**
+   * Get the props of a hidden form field carrying the CSRF token of the
+   * current session.
+   *
+   * Examples:
+   *
+   *     <form method="post" action="/auth/login/local">
+   *       <input type="hidden" {...await passport.csrfField()} />
+   *       ...
+   *     </form>
+   *
+   * @public
+   */
+  async csrfField(): Promise<{name: string; value: string}> {
+    return {name: CSRF_FIELD, value: (await this.csrfToken()) ?? ''};
+  }
+
+  /**
+   * Get the user who is logged in to the current request, or redirect to the
+   * login page when nobody is.
+   *
+   * Examples:
+   *
+   *     export default async function SettingsPage() {
+   *       const user = await passport.requireUser({
+   *         redirectTo: '/login',
+   *         returnTo: '/settings',
+   *       });
+   *       // ...
+   *     }
+   *
+   * @public
+   */
+  async requireUser(options: RequireUserOptions): Promise<U> {
+    const user = await this.currentUser();
+    if (user === undefined) {
+      redirect(withReturnTo(options.redirectTo, options.returnTo));
+    }
+    return user;
+  }
+
+  /**
+   * Get how the user logged in to the current request authenticated: the
+   * factors they completed, and when.  Resolves with `undefined` when nobody
+   * is logged in.
+   *
+   * @public
+   */
+  async assurance(): Promise<Assurance | undefined> {
+    const session = await this._sessionManager.getSession();
+    if (
+      session.user === undefined ||
+      isExpired(session, this._sessionOptions)
+    ) {
+      return undefined;
+    }
+    return assuranceOf(session.authFactors);
+  }
+
+  /**
+   * Get the user who is logged in to the current request, and check that they
+   * authenticated with at least `level` factors within the last `maxAge`
+   * seconds, for use in Server Components.
+   *
+   * Visitors who are not logged in are redirected to the login page, as by
+   * {@link Authenticator#requireUser `requireUser()`}.  Users who have not
+   * authenticated strongly or recently enough are redirected to
+   * `stepUpRedirectTo`, along with `returnTo`, to verify another factor and
+   * be brought back.
+   *
+   * Examples:
+   *
+   *     export default async function AdminPage() {
+   *       const user = await passport.requireAssurance({
+   *         level: 2,
+   *         maxAge: 15 * 60,
+   *         redirectTo: '/login',
+   *         stepUpRedirectTo: '/login/totp',
+   *         returnTo: '/admin',
+   *       });
+   *       // ...
+   *     }
+   *
+   * @public
+   */
+  async requireAssurance(options: RequireAssuranceOptions): Promise<U> {
+    const user = await this.requireUser(options);
+    const session = await this._sessionManager.getSession();
+    if (!meetsAssurance(session.authFactors, options)) {
+      redirect(withReturnTo(options.stepUpRedirectTo, options.returnTo));
+    }
+    return user;
+  }
+
+  /**
+   * Get the user who is logged in to the current request, and check that
+   * they are allowed access, for use in Server Components.
+   *
+   * Visitors who are not logged in are redirected to the login page, as by
+   * {@link Authenticator#requireUser `requireUser()`}, and users who are not
+   * allowed access to `forbiddenRedirectTo`.
+   *
+   * Examples:
+   *
+   *     export default async function AdminPage() {
+   *       const user = await passport.requireAuthorization({
+   *         roles: ['admin'],
+   *         redirectTo: '/login',
+   *         forbiddenRedirectTo: '/',
+   *       });
+   *       // ...
+   *     }
+   *
+   * @public
+   */
+  async requireAuthorization(
+    options: RequireAuthorizationOptions<U>,
+  ): Promise<U> {
+    const user = await this.requireUser(options);
+    const result = await checkAuthorization(
+      options,
+      user,
+      await this.authInfo(),
+    );
+    if (result !== 'allowed') {
+      redirect(options.forbiddenRedirectTo ?? options.redirectTo);
+    }
+    return user;
+  }
+
+  /**
+   * Log `user` in from a server action or route handler, establishing a login
+   * session.
+   *
+   * Examples:
+   *
+   *     async function register(formData: FormData) {
+   *       'use server';
+   *       const user = await User.create(formData);
+   *       await passport.signIn(user);
+   *       redirect('/');
+   *     }
+   *
+   * The login is recorded as a factor named by `method`, and with `partial`,
+   * the user is only logged in once they complete a second factor.  A login
+   * vetoed by a `login` listener is refused with an `AuthenticationError`.
+   *
+   * @public
+   */
+  async signIn(
+    user: U,
+    info?: DefaultInfo,
+    options?: LogInOptions,
+  ): Promise<void> {
+    const veto = await this._emit('login', {
+      strategy: options?.method ?? 'signIn',
+      user,
+      info: await this.transformAuthInfo(info ?? {}),
+      request: requestMetadata(headers()),
+    });
+    if (typeof veto === 'string') {
+      throw new AuthenticationError(veto, 403);
+    }
+
+    await this._sessionManager.logIn(user, info, options);
+    if (options?.partial) {
+      setForRequest(this, 'user', undefined);
+      setForRequest(this, 'authInfo', undefined);
+      return;
+    }
+    // stepping up keeps the info of the first factor
+    const session = await this._sessionManager.getSession();
+    setForRequest(this, 'user', user);
+    setForRequest(
+      this,
+      'authInfo',
+      await this.transformAuthInfo(session.authInfo ?? {}),
+    );
+  }
+
+  /**
+   * Log the current user out from a server action or route handler, ending
+   * the login session.
+   *
+   * @public
+   */
+  async signOut(): Promise<void> {
+    const session = await this._sessionManager.getSession();
+    const user = session.user;
+    await this._sessionManager.logOut();
+    if (user !== undefined) {
+      await this._emit('logout', {user, request: requestMetadata(headers())});
+    }
+    setForRequest(this, 'user', undefined);
+    setForRequest(this, 'authInfo', undefined);
+    setForRequest(this, 'impersonator', undefined);
+  }
+
   /**
    * Middleware that will restore login state from a session.
    *
@@ -134,7 +709,7 @@ export class Authenticator<U, SU> {
    *     app.use(passport.initialize());
    *     app.use(passport.session());
    */
-  session(options: AuthenticateOptions) {
+  session(options: AuthenticateOptions<U>) {
     return this.authenticate('session', options);
   }
 
@@ -257,9 +832,9 @@ export class Authenticator<U, SU> {
    * encode (either directly or indirectly in a database), details such as scope
    * of access or the client to which the token was issued.
    *
-   * Such authorization details should be enforced separately from authentication.
-   * Because Passport deals only with the latter, this is the responsiblity of
-   * middleware or routes further along the chain.  However, it is not optimal to
+   * Such authorization details should be enforced separately from authentication,
+   * by the middleware created with {@link Authenticator#authorize `authorize()`}
+   * or by routes further along the chain.  However, it is not optimal to
    * decode the same data or execute the same database query later.  To avoid
    * this, Passport accepts optional `info` along with the authenticated `user`
    * in a strategy's `success()` action.  This info is set at `req.authInfo`,
@@ -2,6 +2,7 @@ export class AuthenticationError extends Error {
   constructor(
     message: string,
     public status: number = 401,
+    public headers?: HeadersInit,
   ) {
     super(message);
   }
@@ -0,0 +1,8 @@
+/**
+ * A JWT that could not be decoded, or that failed verification.
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
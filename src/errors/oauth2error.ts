@@ -0,0 +1,14 @@
+/**
+ * An error response from an OAuth 2.0 authorization server, as specified by
+ * {@link https://datatracker.ietf.org/doc/html/rfc6749#section-5.2 RFC 6749}.
+ */
+export class OAuth2Error extends Error {
+  constructor(
+    public code: string,
+    message?: string,
+    public uri?: string,
+    public status: number = 500,
+  ) {
+    super(message ?? code);
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * A WebAuthn response that could not be decoded, or that failed
+ * verification.
+ */
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
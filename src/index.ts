@@ -1,3 +1,124 @@
 export {Authenticator} from './authenticator';
+export type {
+  RequireAssuranceOptions,
+  RequireAuthorizationOptions,
+  RequireUserOptions,
+} from './authenticator';
+export {SessionManager} from './sessionmanager';
+export type {ImpersonateOptions, LogInOptions} from './sessionmanager';
+export type {
+  AuthFactor,
+  Impersonation,
+  Session,
+  SessionCookieOptions,
+  SessionData,
+  SessionOptions,
+  SessionSecrets,
+} from './interfaces/session';
+export type {SessionStore, StoredSession} from './interfaces/sessionstore';
+export {MemoryStore} from './stores/memory';
+export {KVStore} from './stores/kv';
+export type {KeyValueClient, KVStoreOptions} from './stores/kv';
+export type {StoredToken, TokenStore} from './interfaces/tokenstore';
+export {MemoryTokenStore} from './stores/memorytokens';
+export type {AttemptStore, Attempts} from './interfaces/attemptstore';
+export {MemoryAttemptStore} from './stores/memoryattempts';
+export type {
+  AuthEventListener,
+  AuthEventListeners,
+  AuthEvents,
+  ErrorEvent,
+  FailureEvent,
+  LoginEvent,
+  LogoutEvent,
+  RequestMetadata,
+  SessionRevokedEvent,
+} from './interfaces/events';
+export type {
+  MiddlewareFunction,
+  RouteHandler,
+  RouteHandlers,
+} from './middleware/types';
+export type {HandlersOptions, StrategyRoutes} from './middleware/handlers';
+export type {AuthorizeOptions} from './middleware/authorize';
+export type {ProtectOptions, ProtectRule} from './middleware/protect';
+export type {AuthorizationRequirements} from './utils/authorization';
+export type {PathPattern} from './utils/pathmatch';
+export type {Assurance, AssuranceRequirement} from './utils/assurance';
+export {canUnlink, unlinkAccount} from './utils/accounts';
+export type {AccountLinks, LinkedAccount} from './utils/accounts';
 export {Strategy} from './interfaces/strategy';
+export type {
+  AuthenticateOptions,
+  FailOptions,
+  LinkAccount,
+  SecondFactorOptions,
+  ThrottleOptions,
+  VerifyResult,
+} from './interfaces/strategy';
+export type {AuthenticateContext, RequestBody} from './interfaces/context';
 export {SessionStrategy} from './strategies/session';
+export {LocalStrategy} from './strategies/local';
+export type {LocalStrategyOptions, LocalVerify} from './strategies/local';
+export {BearerStrategy} from './strategies/bearer';
+export type {BearerStrategyOptions, BearerVerify} from './strategies/bearer';
+export {BasicStrategy} from './strategies/basic';
+export type {BasicStrategyOptions, BasicVerify} from './strategies/basic';
+export {OAuth2Strategy} from './strategies/oauth2';
+export type {
+  OAuth2ClientOptions,
+  OAuth2Endpoints,
+  OAuth2StrategyOptions,
+  OAuth2Tokens,
+  OAuth2Verify,
+} from './strategies/oauth2';
+export {OpenIDConnectStrategy} from './strategies/openidconnect';
+export type {
+  IdTokenClaims,
+  OpenIDConnectStrategyOptions,
+  OpenIDConnectVerify,
+  ProviderMetadata,
+} from './strategies/openidconnect';
+export {JwtStrategy} from './strategies/jwt';
+export type {
+  JwtKey,
+  JwtLocation,
+  JwtStrategyOptions,
+  JwtVerify,
+} from './strategies/jwt';
+export type {JwtHeader, JwtPayload} from './utils/jwt';
+export {TotpStrategy} from './strategies/totp';
+export type {
+  TotpCredential,
+  TotpStrategyOptions,
+  TotpVerify,
+} from './strategies/totp';
+export {
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpStep,
+  totpUri,
+  verifyRecoveryCode,
+  verifyTotp,
+} from './utils/totp';
+export type {TotpAlgorithm, TotpOptions, VerifyTotpOptions} from './utils/totp';
+export {MagicLinkStrategy} from './strategies/magiclink';
+export type {
+  MagicLinkStrategyOptions,
+  MagicLinkVerify,
+} from './strategies/magiclink';
+export {WebAuthnStrategy} from './strategies/webauthn';
+export type {
+  WebAuthnStrategyOptions,
+  WebAuthnUserEntity,
+} from './strategies/webauthn';
+export type {
+  CredentialRepository,
+  WebAuthnCredential,
+} from './interfaces/credentialrepository';
+export {AuthenticationError} from './errors/authenticationerror';
+export {JwtError} from './errors/jwterror';
+export {OAuth2Error} from './errors/oauth2error';
+export {WebAuthnError} from './errors/webauthnerror';
@@ -0,0 +1,32 @@
+/**
+ * The failed attempts to authenticate made by a client or for an account,
+ * as kept by an {@link AttemptStore}.
+ */
+export interface Attempts {
+  /**
+   * Number of failed attempts since the first that is remembered.
+   */
+  count: number;
+
+  /**
+   * Time until which further attempts are refused, in milliseconds since the
+   * epoch.
+   */
+  lockedUntil?: number;
+
+  /**
+   * Time at which the attempts are forgotten, in milliseconds since the
+   * epoch.
+   */
+  expires: number;
+}
+
+/**
+ * Storage for the counts of failed attempts to authenticate, by which
+ * requests are throttled.  Each count is kept until its `expires` time.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<Attempts | undefined>;
+  set(key: string, attempts: Attempts): Promise<void>;
+  delete(key: string): Promise<void>;
+}
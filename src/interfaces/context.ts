@@ -0,0 +1,81 @@
+import type {NextRequest} from 'next/server';
+import type {SessionManager} from '../sessionmanager';
+
+/**
+ * Fields submitted in the body of a request, keyed by name.
+ *
+ * Form submissions map each field to its value (or to an array of values when
+ * the field is repeated), while JSON bodies are passed through as-is.
+ */
+export interface RequestBody {
+  [field: string]: unknown;
+}
+
+/**
+ * The incoming request, as seen by a strategy.
+ *
+ * A context is created once for each call to the authenticate middleware, and
+ * is shared by every strategy in the chain.  Strategies use it to read
+ * credentials from headers, cookies, query parameters or the request body.
+ */
+export interface AuthenticateContext {
+  /**
+   * The request being authenticated.
+   */
+  readonly request: NextRequest;
+
+  /**
+   * The parsed URL of the request, including its query parameters.
+   */
+  readonly url: URL;
+
+  /**
+   * The cookies sent with the request.
+   */
+  readonly cookies: NextRequest['cookies'];
+
+  /**
+   * Parse the request body.
+   *
+   * The body is parsed on first use and the result is cached, so that several
+   * strategies may inspect it.  The original request body is left unread for
+   * the route that handles the request.  Bodies that are absent, malformed or
+   * of an unsupported content type resolve to an empty object.
+   */
+  body(): Promise<RequestBody>;
+
+  /**
+   * Get the user for whom a further factor is being verified: the user
+   * awaiting a second factor after logging in with a first, or else the
+   * logged in user, stepping up.  Resolves with `undefined` when there is
+   * neither.
+   *
+   * Strategies that verify a second factor, such as one-time codes, use it to
+   * look up the user's credentials.
+   */
+  factorUser(): Promise<unknown>;
+
+  /**
+   * The session manager of the authenticator handling the request, which
+   * strategies use to keep state between requests, such as the state of a
+   * pending authorization request.
+   */
+  readonly sessionManager: SessionManager<any, any>;
+
+  /**
+   * The user restored from the login session by `SessionStrategy`, if any,
+   * along with the untransformed info of that login.
+   */
+  user?: unknown;
+  authInfo?: Object;
+
+  /**
+   * The user impersonating the restored user, if any.
+   */
+  impersonator?: unknown;
+
+  /**
+   * Seconds after which a request refused by `throttle` may be retried.
+   */
+  retryAfter?: number;
+}
@@ -0,0 +1,55 @@
+/**
+ * A WebAuthn credential registered by a user, such as a passkey.
+ */
+export interface WebAuthnCredential {
+  /**
+   * The credential ID, base64url encoded.
+   */
+  id: string;
+
+  /**
+   * The credential public key in COSE format, base64url encoded.
+   */
+  publicKey: string;
+
+  /**
+   * The COSE algorithm of the public key, such as -7 for ES256.
+   */
+  algorithm: number;
+
+  /**
+   * The signature counter last reported by the authenticator.
+   */
+  counter: number;
+
+  /**
+   * How the client reaches the authenticator, such as `'internal'` or
+   * `'usb'`, as reported on registration.
+   */
+  transports?: string[];
+}
+
+/**
+ * Storage for the WebAuthn credentials of users.
+ */
+export interface CredentialRepository<U> {
+  /**
+   * Find a credential by its ID, along with the user who registered it.
+   */
+  find(
+    id: string,
+  ): Promise<{credential: WebAuthnCredential; user: U} | undefined>;
+
+  /**
+   * List the credentials registered by `user`.
+   */
+  listByUser(user: U): Promise<WebAuthnCredential[]>;
+
+  create(user: U, credential: WebAuthnCredential): Promise<void>;
+
+  /**
+   * Save the signature counter reported by the authenticator when the
+   * credential was last used.
+   */
+  updateCounter(id: string, counter: number): Promise<void>;
+}
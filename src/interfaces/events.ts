@@ -0,0 +1,99 @@
+/**
+ * What is known of the request during which an event occurred, for audit
+ * logs.
+ */
+export interface RequestMetadata {
+  /**
+   * Address of the client, as set by the platform, such as Vercel, which
+   * Next.js does not know when serving requests itself.  Headers sent by the
+   * client, such as `X-Forwarded-For`, are not trusted.
+   */
+  ip?: string;
+  userAgent?: string;
+
+  /**
+   * Method and URL of the request, unknown to events of server actions.
+   */
+  method?: string;
+  url?: string;
+}
+
+/**
+ * A strategy authenticated `user`, or the app logged them in with
+ * `signIn()`, in which case `strategy` is the `method` of the login.
+ */
+export interface LoginEvent<U> {
+  strategy: string;
+  user: U;
+
+  /**
+   * The auth info of the login, as transformed by `transformAuthInfo()`.
+   */
+  info: any;
+  request: RequestMetadata;
+}
+
+/**
+ * The user serialized as `user` logged out.
+ */
+export interface LogoutEvent<SU> {
+  user: SU;
+  request: RequestMetadata;
+}
+
+/**
+ * Authentication failed with `challenge` and `status`, or with a `message`
+ * when the failure was not a challenge, such as a refused account link.  A
+ * chain of strategies that fails reports the failure of each of them.
+ * Failures that no strategy raised, such as those of the CSRF check or of
+ * throttling, or finding nobody logged in to the session, name no strategy.
+ */
+export interface FailureEvent {
+  strategy?: string;
+  challenge?: string;
+  message?: string;
+  status?: number;
+  request: RequestMetadata;
+}
+
+/**
+ * An error was raised while authenticating, such as by a verify function or
+ * while serializing the user into the session.
+ */
+export interface ErrorEvent {
+  strategy?: string;
+  error: Error;
+  request: RequestMetadata;
+}
+
+/**
+ * `SessionStrategy` removed the user serialized as `user` from a session, as
+ * that user could no longer be deserialized, such as after being deleted.
+ */
+export interface SessionRevokedEvent<SU> {
+  user: SU;
+  request: RequestMetadata;
+}
+
+export interface AuthEvents<U, SU> {
+  login: LoginEvent<U>;
+  logout: LogoutEvent<SU>;
+  failure: FailureEvent;
+  error: ErrorEvent;
+  sessionRevoked: SessionRevokedEvent<SU>;
+}
+
+/**
+ * A function called when an event occurs.  Listeners of `login` may veto the
+ * login by resolving with a message, with which authentication then fails.
+ */
+export interface AuthEventListener<E, R = void> {
+  (event: E): Promise<R>;
+}
+
+export type AuthEventListeners<U, SU> = {
+  [K in keyof AuthEvents<U, SU>]: AuthEventListener<
+    AuthEvents<U, SU>[K],
+    K extends 'login' ? string | void : void
+  >;
+};
@@ -1,6 +1,84 @@
+import {SessionStore} from './sessionstore';
+
 export interface SessionOptions {
-  secret: string;
+  /**
+   * Secret with which session cookies are sealed, at least 32 characters
+   * long.
+   *
+   * To rotate secrets, give them by version, such as
+   * `{1: 'old secret', 2: 'new secret'}`.  Cookies are sealed with the secret
+   * of the highest version, while those sealed with any other secret still
+   * open, and are sealed again with the newest secret when they are saved.
+   */
+  secret: string | SessionSecrets;
   cookieName?: string;
+
+  /**
+   * Store in which sessions are kept on the server.  The session cookie then
+   * only carries the session's identifier, so that sessions can be revoked
+   * and listed.  Without a store, the whole session is sealed into the
+   * cookie.
+   */
+  store?: SessionStore;
+
+  /**
+   * How long, in seconds, a session lasts since it was last saved, which also
+   * sets the `Max-Age` of its cookie, defaults to 14 days.  Set to 0 for a
+   * session that does not expire.
+   */
+  ttl?: number;
+
+  /**
+   * How long, in seconds, a logged in session may go unused before it
+   * expires.  Each request restoring the session with `SessionStrategy`
+   * extends it.
+   */
+  idleTimeout?: number;
+
+  /**
+   * How long, in seconds, a session lasts since the user logged in, however
+   * much it is used.
+   */
+  absoluteTimeout?: number;
+
+  /**
+   * Attributes of the session cookie.
+   */
+  cookie?: SessionCookieOptions;
+}
+
+/**
+ * Session secrets by version.
+ */
+export interface SessionSecrets {
+  [version: number]: string;
+}
+
+export interface SessionCookieOptions {
+  /**
+   * Defaults to the host of the request, without subdomains.
+   */
+  domain?: string;
+
+  /**
+   * Defaults to `'/'`.
+   */
+  path?: string;
+
+  /**
+   * Defaults to `'lax'`.
+   */
+  sameSite?: 'lax' | 'strict' | 'none' | boolean;
+
+  /**
+   * Defaults to true, so that the cookie is only sent over HTTPS.
+   */
+  secure?: boolean;
+
+  /**
+   * Defaults to true, so that the cookie cannot be read by scripts.
+   */
+  httpOnly?: boolean;
 }
 
 export enum FlashType {
@@ -9,8 +87,100 @@ export enum FlashType {
   INFO = 'info',
 }
 
+/**
+ * An authorization request that is waiting for the user to be redirected back
+ * from an OAuth 2.0 authorization server.
+ */
+export interface AuthorizationState {
+  state: string;
+  redirectURI: string;
+  codeVerifier?: string;
+  nonce?: string;
+}
+
+/**
+ * The user who is impersonating the user of a session, kept so that they can
+ * return to their own identity.
+ */
+export interface Impersonation<SU> {
+  impersonator: SU;
+
+  /**
+   * The auth info of the impersonator's login.
+   */
+  authInfo?: Object;
+
+  /**
+   * Times at which impersonation started and ends, in milliseconds since the
+   * epoch.
+   */
+  startedAt: number;
+  expires: number;
+}
+
+/**
+ * A WebAuthn ceremony that is waiting for the response of an authenticator.
+ */
+export interface WebAuthnChallenge {
+  ceremony: 'registration' | 'authentication';
+  challenge: string;
+  /**
+   * Time at which the challenge expires, in milliseconds since the epoch.
+   */
+  expires: number;
+}
+
+/**
+ * A factor with which the user of a session authenticated.
+ */
+export interface AuthFactor {
+  /**
+   * Name of the strategy that verified the factor, such as `local` or
+   * `totp`, like the `amr` claim of OpenID Connect.
+   */
+  method: string;
+
+  /**
+   * Time at which the factor was verified, in milliseconds since the epoch.
+   */
+  at: number;
+}
+
 export interface SessionData<SU> {
   user?: SU;
+  /**
+   * User who has completed a first factor and must complete a second before
+   * they are logged in.
+   */
+  pendingUser?: SU;
+  /**
+   * Factors with which the user of the session authenticated, the most
+   * recently verified last.
+   */
+  authFactors?: AuthFactor[];
+  /**
+   * The user impersonating the user of the session, if any.
+   */
+  impersonation?: Impersonation<SU>;
+  /**
+   * The `info` of the authentication that established the login session,
+   * before it was transformed with `transformAuthInfo()`.
+   */
+  authInfo?: Object;
+  /**
+   * Time at which the session was created, or last regenerated, in
+   * milliseconds since the epoch.
+   */
+  createdAt?: number;
+  /**
+   * Time at which the session was last used, in milliseconds since the epoch.
+   */
+  lastActiveAt?: number;
+  /**
+   * Token that state-changing requests must submit, created when the session
+   * is first saved.
+   */
+  csrfToken?: string;
   flash?: {
     [FlashType.ERROR]?: string;
     [FlashType.SUCCESS]?: string;
@@ -18,4 +188,47 @@ export interface SessionData<SU> {
   };
   messages?: string[];
   returnTo?: string;
+  /**
+   * Nonce to which login links are bound when they may only be used from the
+   * browser in which they were requested.
+   */
+  magicLinkNonce?: string;
+  /**
+   * Challenge of the WebAuthn ceremony in progress.
+   */
+  webAuthnChallenge?: WebAuthnChallenge;
+  authorizationState?: {
+    [key: string]: AuthorizationState;
+  };
 }
+
+/**
+ * An open session, whose changes are kept once it is saved.
+ */
+export type Session<SU> = SessionData<SU> & {
+  /**
+   * Identifier of the session in the session store, once it has been saved
+   * to one.
+   */
+  readonly id?: string;
+
+  save(): Promise<void>;
+
+  /**
+   * Remove the session's data and its cookie.
+   */
+  destroy(): Promise<void>;
+
+  /**
+   * Record that the session is in use, extending its expiry.
+   */
+  touch(): Promise<void>;
+
+  /**
+   * Replace the session with a new one, under a new identifier, which keeps
+   * only the given fields of its data.  The old session is revoked, and the
+   * new one is written once it is saved.  Unless they are kept, the times at
+   * which the session was created and last used are reset.
+   */
+  regenerate(keep?: (keyof SessionData<SU>)[]): Promise<void>;
+};
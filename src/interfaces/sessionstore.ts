@@ -0,0 +1,60 @@
+import {SessionData} from './session';
+
+/**
+ * A session as kept by a {@link SessionStore}.
+ */
+export interface StoredSession {
+  /**
+   * The opaque identifier carried by the session cookie.
+   */
+  id: string;
+
+  data: SessionData<unknown>;
+
+  /**
+   * Key of the serialized user logged in to the session, by which sessions
+   * are listed with `listByUser()`.
+   */
+  user?: string;
+
+  /**
+   * Time at which the session expires, in milliseconds since the epoch, or
+   * `undefined` if it does not.
+   */
+  expires?: number;
+
+  /**
+   * Version of the secret with which the session cookie was last sealed.
+   */
+  secretVersion?: string;
+}
+
+/**
+ * Storage for sessions kept on the server, so that the session cookie only
+ * carries the session's identifier.
+ *
+ * Stores are expected to no longer return sessions once they have expired.
+ */
+export interface SessionStore {
+  get(id: string): Promise<StoredSession | undefined>;
+
+  set(session: StoredSession): Promise<void>;
+
+  destroy(id: string): Promise<void>;
+
+  /**
+   * Extend the expiry of a session without changing its data.
+   */
+  touch(id: string, expires?: number): Promise<void>;
+
+  /**
+   * List the sessions to which a user is logged in, by the key of the
+   * serialized user.
+   */
+  listByUser(user: string): Promise<StoredSession[]>;
+
+  /**
+   * List every session in the store, if the store supports it.
+   */
+  all?(): Promise<StoredSession[]>;
+}
@@ -1,18 +1,77 @@
 import {NextResponse} from 'next/server';
+import {AttemptStore} from './attemptstore';
+import {AuthenticateContext} from './context';
 
 export interface Failure {
   challenge?: string;
   status?: number;
+
+  /**
+   * Message of a failure that is not a challenge, such as a refused account
+   * link, which is sent in the body of the response rather than in
+   * `WWW-Authenticate`.
+   */
+  message?: string;
+
+  /**
+   * Name of the strategy that failed, if any.
+   */
+  strategy?: string;
+
+  /**
+   * Seconds after which a throttled request may be retried.
+   */
+  retryAfter?: number;
+
+  /**
+   * Whether `challenge` is sent in `WWW-Authenticate` whatever the status.
+   */
+  wwwAuthenticate?: boolean;
+}
+
+export interface FailOptions {
+  /**
+   * Send the challenge in `WWW-Authenticate` even though the status is not
+   * 401, as RFC 6750 does with `invalid_request` errors.  Challenges of
+   * other statuses are otherwise taken as messages, and only reach the
+   * callback and flash messages.
+   */
+  wwwAuthenticate?: boolean;
 }
 
 interface FailFunction {
-  (status: number): Promise<void>;
-  (challenge: string, status: number): Promise<void>;
+  (status: number): Promise<NextResponse>;
+  (
+    challenge?: string,
+    status?: number,
+    options?: FailOptions,
+  ): Promise<NextResponse>;
+}
+
+/**
+ * The outcome of a strategy's verify function.
+ *
+ * `user` is the user that the credentials belong to, or a falsy value when
+ * the credentials are not valid.  `info` is passed on to `success()`, or, when
+ * verification fails, a string `info` (or `info.message`) is used as the
+ * challenge passed to `fail()`.
+ */
+export interface VerifyResult<U> {
+  user: U | false | null | undefined;
+  info?: Object;
 }
 
 export abstract class Strategy<U> {
   constructor(public readonly name: string) {}
 
+  /**
+   * Whether the strategy may authenticate a request by its cookies, such as
+   * the session cookie, which browsers also send with requests forged by
+   * other sites.  Chains that do not log in to the session are only checked
+   * for CSRF tokens when one of their strategies does.
+   */
+  public readsCookies = true;
+
   /**
    * Authenticate `user`, with optional `info`.
    *
@@ -27,7 +86,8 @@ export abstract class Strategy<U> {
 
   /**
    * Fail authentication, with optional `challenge` and `status`, defaulting
-   * to 401.
+   * to 401.  The challenges of 401 failures are sent in `WWW-Authenticate`,
+   * as are those of other statuses when `options.wwwAuthenticate` is set.
    *
    * Strategies should call this function to fail an authentication attempt.
    */
@@ -39,7 +99,7 @@ export abstract class Strategy<U> {
    * Strategies should call this function to redirect the user (via their
    * user agent) to a third-party website for authentication.
    */
-  public redirect!: (url: string, status: number) => Promise<NextResponse>;
+  public redirect!: (url: string, status?: number) => Promise<NextResponse>;
 
   /**
    * Pass without making a success or fail decision.
@@ -59,10 +119,183 @@ export abstract class Strategy<U> {
    */
   public error!: (err: Error) => Promise<NextResponse>;
 
-  abstract authenticate(options?: AuthenticateOptions): Promise<NextResponse>;
+  /**
+   * Authenticate the request described by `context`.
+   *
+   * Strategies read credentials from the request in `context` and then
+   * invoke *one* of the action functions above to report the outcome.
+   */
+  abstract authenticate(
+    context: AuthenticateContext,
+    options?: AuthenticateOptions,
+  ): Promise<NextResponse>;
+}
+
+export interface SecondFactorOptions<U> {
+  /**
+   * URL of the page on which the second factor is submitted.
+   */
+  redirectTo: string;
+
+  /**
+   * Decide whether `user` must complete a second factor, such as because
+   * they enrolled one, defaults to requiring every user to.
+   */
+  required?(user: U): boolean | Promise<boolean>;
+}
+
+/**
+ * Link `account`, as authenticated by a strategy, to the logged in `user`.
+ * Resolves with a message to refuse the link, such as when the account is
+ * already linked to another user, which is sent with a `403` status.
+ */
+export interface LinkAccount<U> {
+  (
+    user: U,
+    account: any,
+    info: any,
+    context: AuthenticateContext,
+  ): Promise<string | void>;
+}
+
+export interface ThrottleOptions {
+  /**
+   * Store in which failed attempts are counted, defaults to a
+   * `MemoryAttemptStore` shared by the routes of the authenticator.
+   */
+  store?: AttemptStore;
+
+  /**
+   * Count the failed attempts of each IP address, defaults to true.  The
+   * address is the one set by the platform, such as Vercel.  Requests whose
+   * address is unknown, as when Next.js serves them itself and `trustProxy`
+   * is not set, are only counted by account.
+   */
+  ip?: boolean;
+
+  /**
+   * Number of proxies in front of the app, such as a load balancer, each of
+   * which appends the address it was connected from to `X-Forwarded-For`,
+   * defaults to 0.  The address is then taken from the entry appended by the
+   * outermost proxy, as the entries before it are sent by the client.
+   */
+  trustProxy?: number;
+
+  /**
+   * Also count the failed attempts for each account: the name of the field
+   * of the request body holding the username, or a function resolving with
+   * the identifier of the account.  Identifiers are compared without regard
+   * to case.
+   */
+  identifier?:
+    | string
+    | ((context: AuthenticateContext) => Promise<string | undefined>);
+
+  /**
+   * Name under which attempts are counted, defaults to the names of the
+   * strategies.  Routes with the same scope share their counts.
+   */
+  scope?: string;
+
+  /**
+   * Number of failed attempts allowed before further attempts are delayed,
+   * defaults to 5.
+   */
+  freeAttempts?: number;
+
+  /**
+   * Delay, in seconds, after the first failed attempt beyond `freeAttempts`,
+   * defaults to 1.  The delay doubles with each further failed attempt.
+   */
+  delay?: number;
+
+  /**
+   * Longest delay, in seconds, defaults to 5 minutes.
+   */
+  maxDelay?: number;
+
+  /**
+   * Number of failed attempts after which further attempts are refused for
+   * `lockoutDuration`, defaults to 20.
+   */
+  lockoutAfter?: number;
+
+  /**
+   * How long, in seconds, a lockout lasts, defaults to 15 minutes.
+   */
+  lockoutDuration?: number;
+
+  /**
+   * How long, in seconds, failed attempts are remembered after the last,
+   * defaults to an hour.
+   */
+  window?: number;
+
+  /**
+   * Message sent in the body of the responses to throttled requests,
+   * defaults to `'Too many failed attempts, try again later'`.
+   */
+  message?: string;
 }
 
-export interface AuthenticateOptions {
+export interface AuthenticateOptions<U = any> {
+  /**
+   * Save login state in the session, defaults to true.  Set to false when
+   * credentials are sent with every request, such as bearer tokens, so that
+   * no session cookie is written.
+   */
+  session?: boolean;
+
+  /**
+   * Keep the data of the session from before login in the login session,
+   * defaults to false.  The session is regenerated either way.
+   */
+  keepSessionInfo?: boolean;
+
+  /**
+   * Link the account that the strategy authenticates to the logged in user,
+   * rather than logging in as it.  Requests made while nobody is logged in
+   * fail.  Set by {@link Authenticator#authorize `authorize()`}.
+   */
+  linkAccount?: LinkAccount<any>;
+
+  /**
+   * Require users who authenticate with this strategy to complete a second
+   * factor before they are logged in.  Such users are kept as the session's
+   * pending user and redirected to `redirectTo`, where a second factor
+   * strategy, such as `totp`, completes the login.
+   */
+  secondFactor?: SecondFactorOptions<U>;
+
+  /**
+   * Check the CSRF token of requests made with methods other than `GET`,
+   * `HEAD` and `OPTIONS` before any strategy runs, defaults to true.  A
+   * request that fails the check is rejected with `403 Forbidden`, or
+   * redirected to `failureRedirect`.  The check is skipped when only the
+   * `session` strategy is used, since it does not log anyone in, and with
+   * `session: false` when no strategy reads cookies, such as on API routes
+   * authenticated by `bearer` tokens.
+   */
+  csrf?: boolean;
+
+  /**
+   * Throttle failed attempts to authenticate, by IP address, by account or
+   * both.  Once a client or account has failed `freeAttempts` times, further
+   * attempts are refused for a delay that grows with each failure, until it
+   * is locked out for `lockoutDuration`.  Refused requests fail with
+   * `429 Too Many Requests` and a `Retry-After` header.  The count of an
+   * account is reset when authentication succeeds, while that of an IP
+   * address only expires after `window`.  Failures with a `400` status, such
+   * as missing credentials, are not counted.
+   */
+  throttle?: ThrottleOptions;
+
+  /**
+   * Pass the `info` of a successful authentication through the functions
+   * registered with `transformAuthInfo()`, defaults to true.
+   */
+  authInfo?: boolean;
+
   /**
    * After successful login, redirect to given URL
    */
@@ -102,4 +335,24 @@ export interface AuthenticateOptions {
    * URL to redirect to if a user fails to log in, defaults to `successRedirect`
    */
   successReturnToOrRedirect?: string;
+
+  /**
+   * Save the URL of a `GET` request that fails to authenticate as the
+   * session's `returnTo` before redirecting to `failureRedirect`, defaults to
+   * true.
+   */
+  returnTo?: boolean;
+
+  /**
+   * Name of a query parameter from which to save the session's `returnTo`,
+   * such as the one added by `requireUser()`.
+   */
+  returnToParam?: string;
+
+  /**
+   * Origins other than that of the request to which `returnTo` may redirect,
+   * such as `['https://admin.example.com']`.  Any other `returnTo` is
+   * ignored in favor of `successReturnToOrRedirect`.
+   */
+  allowedRedirectOrigins?: string[];
 }
@@ -0,0 +1,40 @@
+/**
+ * A single-use login token, as kept by a {@link TokenStore}.
+ */
+export interface StoredToken {
+  /**
+   * Hash of the token, by which it is looked up.  The token itself is only
+   * ever sent to the user.
+   */
+  hash: string;
+
+  /**
+   * Email address to which the token was sent.
+   */
+  email: string;
+
+  /**
+   * Time at which the token expires, in milliseconds since the epoch.
+   */
+  expires: number;
+
+  /**
+   * Hash of the nonce of the session in which the token was requested, when
+   * the token may only be used from the same browser.
+   */
+  browser?: string;
+}
+
+/**
+ * Storage for the tokens of login links sent by email.
+ */
+export interface TokenStore {
+  set(token: StoredToken): Promise<void>;
+
+  /**
+   * Remove the token with the given hash and resolve with it, so that a token
+   * is only ever used once.  Stores shared between processes must do so
+   * atomically, such as with `GETDEL` in Redis.
+   */
+  consume(hash: string): Promise<StoredToken | undefined>;
+}
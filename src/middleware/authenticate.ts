@@ -1,13 +1,33 @@
 // import * as http from 'node:http';
 
 import {NextResponse} from 'next/server';
-import type {NextRequest} from 'next/server';
 
 import {Authenticator} from '../authenticator';
-import {AuthenticateOptions, Failure, Strategy} from '../interfaces/strategy';
+import {
+  AuthenticateOptions,
+  FailOptions,
+  Failure,
+  Strategy,
+} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
 import {MiddlewareFunction} from './types';
 import {FlashType} from '../interfaces/session';
 import {AuthenticationError} from '../errors/authenticationerror';
+import {RequestMetadata} from '../interfaces/events';
+import {SessionManager} from '../sessionmanager';
+import {SessionStrategy} from '../strategies/session';
+import {createContext} from '../utils/context';
+import {verifyCsrf} from '../utils/csrf';
+import {requestMetadata} from '../utils/events';
+import {isAllowedRedirect, resolveRedirect} from '../utils/redirect';
+import {
+  DEFAULT_THROTTLE_MESSAGE,
+  recordFailure,
+  resetAttempts,
+  retryAfter,
+  ThrottleKeys,
+  throttleKeys,
+} from '../utils/throttle';
 /**
  * Module dependencies.
  */
@@ -32,6 +52,12 @@ export type StrategySpecifier<U> =
  * An optional `status` argument will be passed when authentication fails - this could
  * be a HTTP response code for a remote authentication failure or similar.
  *
+ * The `context` of the request is passed last, giving access to its session.
+ *
+ * When a callback is supplied, a user restored from the session by the
+ * `session` strategy is passed to it as authenticated.  If no user is
+ * restored, the next strategy in the chain is attempted instead.
+ *
  * For example:
  *
  * app.get('/protected', function(req, res, next) {
@@ -48,6 +74,7 @@ export interface AuthenticateCallback<U> {
     user?: U | false,
     info?: any,
     status?: any,
+    context?: AuthenticateContext,
   ): Promise<NextResponse>;
 }
 
@@ -79,7 +106,7 @@ export interface AuthenticateCallback<U> {
 function authenticate<U, SU>(
   passport: Authenticator<U, SU>,
   name: StrategySpecifier<U>,
-  _options?: AuthenticateOptions,
+  _options?: AuthenticateOptions<U>,
   callback?: AuthenticateCallback<U>,
 ): MiddlewareFunction {
   const options = _options ?? {};
@@ -101,26 +128,57 @@ function authenticate<U, SU>(
     multi = false;
   }
 
-  return function authenticate(req, event) {
+  return async function authenticate(req) {
     var failures: Failure[] = [];
+    // changes to the session are collected while the chain runs, and applied
+    // to whichever response it resolves with
+    const sessionManager = passport._sessionManager.forRequest(req);
+    const context = createContext(req, sessionManager, user =>
+      passport.deserializeUser(user as SU),
+    );
+    const metadata = requestMetadata(req);
+    let current: string | undefined;
+    const attemptStore = options.throttle?.store ?? passport._attemptStore;
+    let attemptKeys: ThrottleKeys = {};
+
+    async function allFailed(): Promise<NextResponse> {
+      for (const {strategy, challenge, message, status} of failures) {
+        await passport._emit('failure', {
+          strategy,
+          challenge,
+          message,
+          status,
+          request: metadata,
+        });
+      }
+
+      // only the credentials that strategies refused count as attempts
+      const throttled = context.retryAfter !== undefined;
+      if (
+        options.throttle &&
+        !throttled &&
+        failures.some(f => f.strategy !== undefined && f.status !== 400)
+      ) {
+        await recordFailure(attemptStore, attemptKeys, options.throttle);
+      }
 
-    function allFailed() {
       if (callback) {
         if (!multi) {
           return callback(
             null,
             false,
-            failures[0].challenge,
+            failures[0].challenge ?? failures[0].message,
             failures[0].status,
+            context,
           );
         } else {
           var challenges = failures.map(function (f) {
-            return f.challenge;
+            return f.challenge ?? f.message;
           });
           var statuses = failures.map(function (f) {
             return f.status;
           });
-          return callback(null, false, challenges, statuses);
+          return callback(null, false, challenges, statuses, context);
         }
       }
 
@@ -128,27 +186,36 @@ function authenticate<U, SU>(
       // message, the first failure will be displayed.
       let failure = failures[0] || {};
       let msg: string | undefined;
+      const failureMessage = failure.challenge ?? failure.message;
 
+      // the message of a throttled request is kept, so that users learn why
+      // they are refused
       if (options.failureFlash) {
         msg =
-          typeof options.failureFlash == 'string'
+          typeof options.failureFlash == 'string' && !throttled
             ? options.failureFlash
-            : failure.challenge;
+            : failureMessage;
         if (typeof msg == 'string') {
-          passport._sessionManager.setFlash(FlashType.ERROR, msg);
+          await sessionManager.setFlash(FlashType.ERROR, msg);
         }
       }
       if (options.failureMessage) {
         msg =
-          typeof options.failureMessage == 'string'
+          typeof options.failureMessage == 'string' && !throttled
             ? options.failureMessage
-            : failure.challenge;
+            : failureMessage;
         if (typeof msg == 'string') {
-          passport._sessionManager.setMessage(msg);
+          await sessionManager.setMessage(msg);
         }
       }
       if (options.failureRedirect) {
-        return NextResponse.redirect(options.failureRedirect);
+        // bring the user back to the page they asked for once they log in
+        if (options.returnTo !== false && req.method === 'GET') {
+          await sessionManager.setReturnTo(req.nextUrl.href);
+        }
+        return NextResponse.redirect(
+          resolveRedirect(options.failureRedirect, req),
+        );
       }
 
       // When failure handling is not delegated to the application, the default
@@ -156,40 +223,129 @@ function authenticate<U, SU>(
       // header will be set according to the strategies in use (see
       // actions#fail).  If multiple strategies failed, each of their challenges
       // will be included in the response.
-      let rchallenge = [];
       let rstatus;
-
       for (const failure of failures) {
-        const {challenge, status} = failure;
+        rstatus ||= failure.status;
+      }
+      const statusCode = rstatus ?? 401;
 
-        rstatus ||= status;
-        if (typeof challenge == 'string') {
+      // other statuses only carry the challenges that strategies sent with
+      // them as such, such as RFC 6750 `invalid_request` errors
+      let rchallenge = [];
+      for (const {challenge, status, wwwAuthenticate} of failures) {
+        if (
+          typeof challenge == 'string' &&
+          (statusCode === 401 || (wwwAuthenticate && status === statusCode))
+        ) {
           rchallenge.push(challenge);
         }
       }
 
-      const statusCode = rstatus ?? 401;
-      let headers = {};
-      if (statusCode === 401 && rchallenge.length) {
-        headers = {
-          headers: {
-            'WWW-Authenticate': rchallenge,
-          },
-        };
+      const headers = new Headers();
+      for (const challenge of rchallenge) {
+        headers.append('WWW-Authenticate', challenge);
+      }
+      if (statusCode === 429 && failure.retryAfter !== undefined) {
+        headers.set('Retry-After', String(failure.retryAfter));
       }
 
+      // messages that are not challenges, such as refusals, are sent in the
+      // body, where any text can be
+      const message = failures.find(f => f.message !== undefined)?.message;
       if (options.failWithError) {
-        throw new AuthenticationError(String(statusCode), rstatus);
+        throw new AuthenticationError(
+          message ??
+            (statusCode === 401
+              ? 'Unauthorized'
+              : failure.challenge ?? 'Authentication failed'),
+          statusCode,
+          headers,
+        );
+      }
+      if (message !== undefined) {
+        return NextResponse.json(
+          {error: message},
+          {status: statusCode, headers},
+        );
       }
       return new NextResponse(undefined, {
         status: statusCode,
-        ...headers,
+        headers,
       });
     }
 
     const names = name as Array<Strategy<U> | string>;
 
-    async function attempt(i: number) {
+    async function saveRequestedReturnTo(): Promise<void> {
+      const requested =
+        options.returnToParam &&
+        req.nextUrl.searchParams.get(options.returnToParam);
+      if (requested) {
+        const url = resolveRedirect(requested, req);
+        if (isAllowedRedirect(url, req, options.allowedRedirectOrigins)) {
+          await sessionManager.setReturnTo(url.href);
+        }
+      }
+    }
+
+    async function checkCsrf(): Promise<NextResponse | undefined> {
+      const restoresOnly = names.every(
+        layer => layer === 'session' || layer instanceof SessionStrategy,
+      );
+      // a forged request that logs nobody in to the session can only act
+      // with the credentials it carries, unless they are cookies
+      const cookieless =
+        options.session === false &&
+        names.every(
+          layer =>
+            (isStrategy(layer) ? layer : passport._strategy(layer))
+              ?.readsCookies === false,
+        );
+      if (options.csrf === false || restoresOnly || cookieless) {
+        return undefined;
+      }
+      if (!(await verifyCsrf(context))) {
+        failures.push({challenge: 'Invalid CSRF token', status: 403});
+        return allFailed();
+      }
+      return undefined;
+    }
+
+    async function requireLogin(): Promise<NextResponse | undefined> {
+      if (
+        !options.linkAccount ||
+        ((await sessionManager.isAuthenticated()) &&
+          (await context.factorUser()) !== undefined)
+      ) {
+        return undefined;
+      }
+      failures.push({message: 'Log in before linking an account', status: 401});
+      return allFailed();
+    }
+
+    async function checkThrottle(): Promise<NextResponse | undefined> {
+      if (!options.throttle) {
+        return undefined;
+      }
+      const scope =
+        options.throttle.scope ??
+        names.map(layer => (isStrategy(layer) ? layer.name : layer)).join(',');
+      attemptKeys = await throttleKeys(options.throttle, context, scope);
+
+      const wait = await retryAfter(attemptStore, attemptKeys);
+      if (!wait) {
+        return undefined;
+      }
+      context.retryAfter = wait;
+      failures.push({
+        message: options.throttle.message ?? DEFAULT_THROTTLE_MESSAGE,
+        status: 429,
+        retryAfter: wait,
+      });
+      return allFailed();
+    }
+
+    async function attempt(i: number): Promise<NextResponse> {
       var layer = names[i];
       // If no more strategies exist in the chain, authentication has failed.
       if (!layer) {
@@ -199,41 +355,94 @@ function authenticate<U, SU>(
       // Get the strategy, which will be used as prototype from which to create
       // a new instance.  Action functions will then be bound to the strategy
       // within the context of the HTTP request/response pair.
-      let strategy: Strategy<U>;
       let prototype: Strategy<U> | undefined;
       if (isStrategy(layer)) {
-        strategy = layer;
+        prototype = layer;
       } else {
         prototype = passport._strategy(layer);
         if (!prototype) {
           throw new Error('Unknown authentication strategy "' + layer + '"');
         }
-
-        strategy = Object.create(prototype);
       }
 
+      const strategy: Strategy<U> = Object.create(prototype);
+      current = strategy.name;
       augmentStrategy(
         strategy,
         callback,
         options,
-        req,
         passport,
+        context,
+        metadata,
         failures,
         () => attempt(i + 1),
+        () => resetAttempts(attemptStore, attemptKeys),
       );
 
-      const result = await strategy.authenticate(options);
-      return result;
+      return strategy.authenticate(context, options);
     }
 
-    let res!: NextResponse;
+    // Errors that reach this point, either thrown by `strategy.error()` or
+    // due to `failWithError`, are turned into a response rather than being
+    // left to the runtime.
+    let res: Response | undefined;
+    try {
+      res =
+        (await checkCsrf()) ??
+        (await requireLogin()) ??
+        (await checkThrottle());
+      if (!res) {
+        await saveRequestedReturnTo();
+        res = await attempt(0);
+      }
+    } catch (err) {
+      // failures are reported as such, and errors passed to `error()` were
+      // reported by it
+      if (
+        !(err instanceof AuthenticationError) &&
+        !reported.has(err as Error)
+      ) {
+        await passport
+          ._emit('error', {
+            strategy: current,
+            error: err as Error,
+            request: metadata,
+          })
+          .catch(() => undefined);
+      }
+      res = errorResponse(err as Error);
+    }
+    return sessionManager.commit(res);
+  };
+}
 
-    const promise = attempt(0).then(result => (res = result));
+// errors already reported to the `error` listeners, as `error()` raises them
+// again when no callback was supplied
+const reported = new WeakSet<object>();
 
-    event.waitUntil(promise);
+/**
+ * Respond to an error raised while authenticating.  Authentication errors are
+ * reported with their status and message, while the details of any other
+ * error are not disclosed.
+ */
+function errorResponse(err: Error): NextResponse {
+  if (err instanceof AuthenticationError) {
+    return NextResponse.json(
+      {error: err.message},
+      {status: err.status, headers: err.headers},
+    );
+  }
 
-    return res;
-  };
+  const status = (err as {status?: unknown}).status;
+  return NextResponse.json(
+    {error: 'Internal Server Error'},
+    {
+      status:
+        typeof status === 'number' && status >= 400 && status < 600
+          ? status
+          : 500,
+    },
+  );
 }
 
 /**
@@ -247,15 +456,58 @@ function authenticate<U, SU>(
 function augmentStrategy<U, SU>(
   strategy: Strategy<U>,
   callback: AuthenticateCallback<U> | undefined,
-  options: AuthenticateOptions,
-  req: NextRequest,
+  options: AuthenticateOptions<U>,
   passport: Authenticator<U, SU>,
+  context: AuthenticateContext,
+  metadata: RequestMetadata,
   failures: Failure[],
-  attemptNext: () => void,
+  attemptNext: () => Promise<NextResponse>,
+  resetAttempts: () => Promise<void>,
 ) {
-  strategy.success = async function (user, info) {
+  const req = context.request;
+  const sessionManager: SessionManager<U, SU> = context.sessionManager;
+
+  // a refusal is a failure of the strategy, whose message is not a challenge
+  function refuse(message: string): Promise<NextResponse> {
+    failures.push({message, status: 403, strategy: strategy.name});
+    return attemptNext();
+  }
+
+  // a user restored from the session is not logged in again, so neither
+  // reported nor subject to veto
+  async function succeed(user: U, info: any, restored: boolean) {
+    // the untransformed info is kept with the login session, and transformed
+    // again whenever `passport.authInfo()` is called
+    const sessionInfo = options.authInfo !== false ? info : undefined;
+    if (options.authInfo !== false) {
+      info = await passport.transformAuthInfo(info ?? {});
+    }
+
+    if (!restored && !options.linkAccount) {
+      const veto = await passport._emit('login', {
+        strategy: strategy.name,
+        user,
+        info,
+        request: metadata,
+      });
+      if (typeof veto === 'string') {
+        return refuse(veto);
+      }
+      await resetAttempts();
+    }
+
     if (callback) {
-      return callback(null, user, info);
+      return callback(null, user, info, undefined, context);
+    }
+
+    if (options.linkAccount) {
+      // the account is attached to the user who is logged in, whose session
+      // is left as it is
+      const current = await context.factorUser();
+      const refusal = await options.linkAccount(current, user, info, context);
+      if (typeof refusal === 'string') {
+        return refuse(refusal);
+      }
     }
 
     info ??= '';
@@ -264,7 +516,7 @@ function augmentStrategy<U, SU>(
       let msg =
         typeof options.successFlash === 'string' ? options.successFlash : info;
       if (typeof msg == 'string') {
-        await passport._sessionManager.setFlash(FlashType.SUCCESS, msg);
+        await sessionManager.setFlash(FlashType.SUCCESS, msg);
       }
     }
     if (options.successMessage) {
@@ -273,29 +525,56 @@ function augmentStrategy<U, SU>(
           ? options.successMessage
           : info;
       if (typeof msg == 'string') {
-        await passport._sessionManager.setMessage(msg);
+        await sessionManager.setMessage(msg);
       }
     }
 
-    await passport._sessionManager.logIn(user);
+    if (options.session !== false && !options.linkAccount) {
+      const partial =
+        options.secondFactor !== undefined &&
+        (!options.secondFactor.required ||
+          (await options.secondFactor.required(user)));
+      await sessionManager.logIn(user, sessionInfo, {
+        keepSessionInfo: options.keepSessionInfo,
+        method: strategy.name,
+        partial,
+      });
+      if (partial && (await sessionManager.isUnauthenticated())) {
+        return NextResponse.redirect(
+          resolveRedirect(options.secondFactor!.redirectTo, req),
+        );
+      }
+    }
 
     if (options.successReturnToOrRedirect) {
-      var url = options.successReturnToOrRedirect;
-      const returnTo = await passport._sessionManager.pluckReturnTo();
+      var url = resolveRedirect(options.successReturnToOrRedirect, req);
+      const returnTo = await sessionManager.pluckReturnTo();
       if (returnTo) {
-        url = returnTo;
+        // the stored URL may have come from the query string of a login page,
+        // so it must not redirect to another site
+        const resolved = resolveRedirect(returnTo, req);
+        if (isAllowedRedirect(resolved, req, options.allowedRedirectOrigins)) {
+          url = resolved;
+        }
       }
       return NextResponse.redirect(url);
     }
     if (options.successRedirect) {
-      return NextResponse.redirect(options.successRedirect);
+      return NextResponse.redirect(
+        resolveRedirect(options.successRedirect, req),
+      );
     }
     return NextResponse.next();
+  }
+
+  strategy.success = async function (user, info) {
+    return succeed(user, info, false);
   };
 
   strategy.fail = async function (
-    challengeOrStatus: string | number,
+    challengeOrStatus?: string | number,
     status?: number,
+    failOptions?: FailOptions,
   ) {
     let challenge: string | undefined;
     if (typeof challengeOrStatus == 'number') {
@@ -306,17 +585,23 @@ function augmentStrategy<U, SU>(
 
     // push this failure into the accumulator and attempt authentication
     // using the next strategy
-    failures.push({challenge, status});
-    attemptNext();
+    failures.push({
+      challenge,
+      status,
+      strategy: strategy.name,
+      wwwAuthenticate: failOptions?.wwwAuthenticate,
+    });
+    return attemptNext();
   };
 
   strategy.redirect = async function (url, status) {
     const statusCode = status || 302;
-    return NextResponse.redirect(url, {
+    const location = resolveRedirect(url, req).href;
+    return NextResponse.redirect(location, {
       status: statusCode,
       headers: {
         'Content-Length': '0',
-        Location: url,
+        Location: location,
       },
     });
   };
@@ -328,9 +613,19 @@ function augmentStrategy<U, SU>(
    * function.  It exists primarily to allow previous authentication state
    * to be restored, for example from an HTTP session.
    *
+   * When a callback was supplied, a restored user is reported to it as a
+   * success, and otherwise the next strategy is attempted.
+   *
    * @api public
    */
   strategy.pass = async function () {
+    if (callback) {
+      if (context.user) {
+        return succeed(context.user as U, context.authInfo ?? {}, true);
+      }
+      failures.push({});
+      return attemptNext();
+    }
     return NextResponse.next();
   };
 
@@ -345,8 +640,13 @@ function augmentStrategy<U, SU>(
    * @api public
    */
   strategy.error = async function (err) {
+    reported.add(err);
+    await passport
+      ._emit('error', {strategy: strategy.name, error: err, request: metadata})
+      .catch(() => undefined);
+
     if (callback) {
-      return callback(err);
+      return callback(err, undefined, undefined, undefined, context);
     }
 
     throw err;
@@ -359,4 +659,4 @@ function isStrategy<U>(
   return typeof (specifier as Strategy<U>).authenticate == 'function';
 }
 
-export {authenticate};
+export {authenticate, isStrategy};
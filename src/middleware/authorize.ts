@@ -0,0 +1,115 @@
+import {NextResponse} from 'next/server';
+
+import {Authenticator} from '../authenticator';
+import {
+  AuthorizationRequirements,
+  checkAuthorization,
+  forbiddenResponse,
+  unauthorizedResponse,
+} from '../utils/authorization';
+import {resolveRedirect} from '../utils/redirect';
+import {MiddlewareFunction, RouteHandler} from './types';
+
+export interface AuthorizeOptions<U> extends AuthorizationRequirements<U> {
+  /**
+   * Strategies with which to authenticate the request, in order, defaults to
+   * `'session'`.
+   */
+  strategies?: string | string[];
+
+  /**
+   * Reject requests that fail to authenticate, defaults to true.  When false,
+   * such requests continue anonymously, without being authorized.
+   */
+  required?: boolean;
+
+  /**
+   * URL of the login page to which requests that fail to authenticate are
+   * redirected, after their URL is saved as the session's `returnTo`.  Such
+   * requests are otherwise rejected with `401 Unauthorized` and the
+   * challenges of the strategies.
+   */
+  redirectTo?: string;
+
+  /**
+   * Realm reported in the `insufficient_scope` challenge, defaults to
+   * `'Users'`.
+   */
+  realm?: string;
+}
+
+/**
+ * Create middleware that authenticates the request and checks that the user
+ * is allowed access, continuing to the route only if they are.
+ *
+ * Users who lack a required scope or role are rejected with
+ * `403 Forbidden`, along with an `insufficient_scope` challenge when they
+ * used a bearer token.
+ */
+function authorize<U, SU>(
+  passport: Authenticator<U, SU>,
+  options: AuthorizeOptions<U>,
+): MiddlewareFunction {
+  return passport.authenticate(
+    options.strategies ?? 'session',
+    // nobody logs in here, so there is no form to forge
+    {csrf: false},
+    async (err, user, info, status, context) => {
+      if (err) {
+        throw err;
+      }
+
+      const req = context!.request;
+      if (!user) {
+        if (options.required === false) {
+          return NextResponse.next();
+        }
+        if (options.redirectTo) {
+          if (req.method === 'GET') {
+            await context!.sessionManager.setReturnTo(req.nextUrl.href);
+          }
+          return NextResponse.redirect(
+            resolveRedirect(options.redirectTo, req),
+          );
+        }
+        return unauthorizedResponse(info, status);
+      }
+
+      const result = await checkAuthorization(options, user, info, req);
+      if (result !== 'allowed') {
+        return forbiddenResponse(req, result, options.scopes, options.realm);
+      }
+      return NextResponse.next();
+    },
+  );
+}
+
+/**
+ * Wrap a route handler so that it only runs once `middleware` lets the
+ * request continue, and otherwise responds as the middleware did.  Cookies
+ * set by the middleware are kept.
+ */
+function guardRouteHandler(
+  middleware: MiddlewareFunction,
+  handler: RouteHandler,
+): RouteHandler {
+  return async function guarded(req, context) {
+    const res = await middleware(req);
+    if (!res.headers.has('x-middleware-next')) {
+      return res;
+    }
+
+    let handled = await handler(req, context);
+    const cookies = res.headers.getSetCookie();
+    if (cookies.length) {
+      // responses such as `Response.redirect()` have immutable headers
+      handled = new Response(handled.body, handled);
+      for (const cookie of cookies) {
+        handled.headers.append('Set-Cookie', cookie);
+      }
+    }
+    return handled;
+  };
+}
+
+export {authorize, guardRouteHandler};
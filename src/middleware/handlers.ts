@@ -0,0 +1,177 @@
+import {NextResponse} from 'next/server';
+import type {NextRequest} from 'next/server';
+
+import {Authenticator} from '../authenticator';
+import {AuthenticateOptions} from '../interfaces/strategy';
+import {createContext} from '../utils/context';
+import {verifyCsrf} from '../utils/csrf';
+import {requestMetadata} from '../utils/events';
+import {resolveRedirect} from '../utils/redirect';
+import {RouteHandler, RouteHandlers} from './types';
+
+export interface StrategyRoutes {
+  /**
+   * Options for `/login/:strategy`, which starts authentication.
+   */
+  login?: AuthenticateOptions;
+
+  /**
+   * Options for `/callback/:strategy`, to which third-party providers
+   * redirect users, defaults to the `login` options.
+   */
+  callback?: AuthenticateOptions;
+}
+
+export interface HandlersOptions {
+  /**
+   * The strategies that may be used through these routes, by name, and the
+   * options to authenticate with on each route.
+   */
+  strategies: {
+    [name: string]: StrategyRoutes;
+  };
+
+  /**
+   * Options shared by every route, which the options of a strategy override.
+   */
+  defaults?: AuthenticateOptions;
+
+  /**
+   * Options for `/logout`, which only accepts `POST` requests carrying the
+   * CSRF token of the session.
+   */
+  logout?: {
+    /**
+     * URL to redirect to after logging out.  Responds with `204 No Content`
+     * when omitted.
+     */
+    redirect?: string;
+  };
+}
+
+/**
+ * Create route handlers for the login, callback and logout endpoints.
+ *
+ * The handlers are meant to be exported from a catch-all route, such as
+ * `app/auth/[...passport]/route.ts`, and map the path below that route to an
+ * action:
+ *
+ *  - `/login/:strategy` authenticates with the strategy,
+ *  - `/callback/:strategy` completes authentication with a third-party,
+ *  - `/logout` logs the user out.
+ *
+ * Only the strategies listed in `options.strategies` can be reached.  Any
+ * other path responds with `404 Not Found`.
+ *
+ * Examples:
+ *
+ *     export const {GET, POST} = passport.handlers({
+ *       strategies: {
+ *         local: {login: {successRedirect: '/', failureRedirect: '/login'}},
+ *         google: {callback: {successRedirect: '/', failureRedirect: '/login'}},
+ *       },
+ *       logout: {redirect: '/'},
+ *     });
+ */
+function handlers<U, SU>(
+  passport: Authenticator<U, SU>,
+  options: HandlersOptions,
+): RouteHandlers {
+  const handler: RouteHandler = async function handler(req, context) {
+    const [action, name, ...rest] = routeSegments(req, context?.params);
+
+    if (action === 'logout' && name === undefined) {
+      if (req.method !== 'POST') {
+        return new NextResponse(null, {status: 405, headers: {Allow: 'POST'}});
+      }
+      return logOut(passport, req, options.logout?.redirect);
+    }
+
+    if (
+      name === undefined ||
+      rest.length ||
+      !Object.hasOwn(options.strategies, name) ||
+      (action !== 'login' && action !== 'callback')
+    ) {
+      return new NextResponse(null, {status: 404});
+    }
+
+    const routes = options.strategies[name];
+
+    const routeOptions =
+      action === 'callback' ? routes.callback ?? routes.login : routes.login;
+    const res = await passport.authenticate(name, {
+      // these routes are never the page a user meant to visit, but the login
+      // route is told where to return to by `requireUser()`
+      returnTo: false,
+      returnToParam: action === 'login' ? 'returnTo' : undefined,
+      ...options.defaults,
+      ...routeOptions,
+    })(req);
+    return toRouteResponse(res);
+  };
+
+  return {GET: handler, POST: handler};
+}
+
+async function logOut<U, SU>(
+  passport: Authenticator<U, SU>,
+  req: NextRequest,
+  redirect?: string,
+): Promise<Response> {
+  const sessionManager = passport._sessionManager.forRequest(req);
+  if (!(await verifyCsrf(createContext(req, sessionManager)))) {
+    return new NextResponse(null, {status: 403});
+  }
+  const {user} = await sessionManager.getSession();
+  await sessionManager.logOut();
+  if (user !== undefined) {
+    await passport._emit('logout', {user, request: requestMetadata(req)});
+  }
+
+  const res = redirect
+    ? NextResponse.redirect(resolveRedirect(redirect, req), 303)
+    : new NextResponse(null, {status: 204});
+  return sessionManager.commit(res);
+}
+
+/**
+ * The path segments below the catch-all route, which Next.js passes to route
+ * handlers as the only array-valued param.  When the params are not given,
+ * the segments are found in the pathname instead.
+ */
+function routeSegments(
+  req: NextRequest,
+  params?: Record<string, string | string[]>,
+): string[] {
+  const segments = Object.values(params ?? {}).find(Array.isArray);
+  if (segments) {
+    return segments;
+  }
+
+  const path = req.nextUrl.pathname.split('/').filter(Boolean);
+  const index = path.findIndex(
+    segment => segment === 'login' || segment === 'callback',
+  );
+  if (index !== -1) {
+    return path.slice(index);
+  }
+  return path.slice(-1);
+}
+
+/**
+ * Route handlers cannot continue to the route the way middleware does, so a
+ * successful authentication without a redirect responds with
+ * `204 No Content`, keeping any cookies that were set.
+ */
+function toRouteResponse(res: Response): Response {
+  if (!res.headers.has('x-middleware-next')) {
+    return res;
+  }
+
+  const headers = new Headers(res.headers);
+  headers.delete('x-middleware-next');
+  return new NextResponse(null, {status: 204, headers});
+}
+
+export {handlers};
@@ -0,0 +1,65 @@
+import {NextResponse} from 'next/server';
+
+import {Authenticator} from '../authenticator';
+import {PathPattern, compilePathPattern, matchesPath} from '../utils/pathmatch';
+import {AuthorizeOptions, authorize} from './authorize';
+import {MiddlewareFunction} from './types';
+
+export interface ProtectRule<U> extends AuthorizeOptions<U> {
+  /**
+   * Paths to which the rule applies, as globs such as `/admin/**`, Next.js
+   * routes such as `/users/[id]`, or `config.matcher` paths.
+   */
+  path: PathPattern | PathPattern[];
+}
+
+export interface ProtectOptions<U> {
+  /**
+   * Rules matched against the pathname of each request, in order.  The first
+   * rule to match applies, and requests matching none continue to the route.
+   */
+  rules: ProtectRule<U>[];
+}
+
+/**
+ * Create middleware that protects paths according to `rules`.
+ *
+ * Meant to be exported from the root `middleware.ts`, alongside a
+ * `config.matcher` restricting which requests reach it.  The pathname is
+ * matched without the `basePath`.
+ *
+ * Examples:
+ *
+ *     export const middleware = passport.protect({
+ *       rules: [
+ *         {path: '/api/**', strategies: ['session', 'bearer'], scopes: ['api']},
+ *         {path: '/admin/**', redirectTo: '/login', roles: ['admin']},
+ *         {path: '/account/[section]', redirectTo: '/login'},
+ *       ],
+ *     });
+ *
+ *     export const config = {matcher: ['/api/:path*', '/admin/:path*', '/account/:section']};
+ */
+function protect<U, SU>(
+  passport: Authenticator<U, SU>,
+  options: ProtectOptions<U>,
+): MiddlewareFunction {
+  const rules = options.rules.map(rule => ({
+    patterns: (Array.isArray(rule.path) ? rule.path : [rule.path]).map(
+      compilePathPattern,
+    ),
+    middleware: authorize(passport, rule),
+  }));
+
+  return async function protect(req, event) {
+    const rule = rules.find(rule =>
+      matchesPath(req.nextUrl.pathname, rule.patterns),
+    );
+    if (!rule) {
+      return NextResponse.next();
+    }
+    return rule.middleware(req, event);
+  };
+}
+
+export {protect};
@@ -1,5 +1,25 @@
-import type {NextFetchEvent, NextRequest, NextResponse} from 'next/server';
+import type {NextFetchEvent, NextRequest} from 'next/server';
 
+/**
+ * An async middleware, which resolves with the response to send once the
+ * request has been handled.  It can be exported from `middleware.ts` as-is.
+ */
 export interface MiddlewareFunction {
-  (req: NextRequest, event: NextFetchEvent): Response | NextResponse | void;
+  (req: NextRequest, event?: NextFetchEvent): Promise<Response>;
+}
+
+/**
+ * A route handler, as exported from a `route.ts` file.  Next.js passes the
+ * dynamic segments of the route as `params`.
+ */
+export interface RouteHandler {
+  (
+    req: NextRequest,
+    context?: {params?: Record<string, string | string[]>},
+  ): Promise<Response>;
+}
+
+export interface RouteHandlers {
+  GET: RouteHandler;
+  POST: RouteHandler;
 }
@@ -1,21 +1,218 @@
-import {FlashType, SessionOptions} from './interfaces/session';
+import {
+  AuthorizationState,
+  FlashType,
+  Session,
+  SessionData,
+  SessionOptions,
+} from './interfaces/session';
+import {SessionStore, StoredSession} from './interfaces/sessionstore';
 import {SerializeUser} from './interfaces/user';
-import {getSession} from './utils/session';
+import {addFactor, assuranceOf} from './utils/assurance';
+import {CookieJar} from './utils/cookies';
+import {
+  currentSecretVersion,
+  getSession,
+  isExpired,
+  normalizeSecret,
+  userKey,
+} from './utils/session';
+import type {NextRequest} from 'next/server';
+
+export interface LogInOptions {
+  /**
+   * Keep the data of the session from before login in the login session,
+   * defaults to false.
+   */
+  keepSessionInfo?: boolean;
+
+  /**
+   * Name of the factor with which the user authenticated, defaults to
+   * `'signIn'`.
+   */
+  method?: string;
+
+  /**
+   * Keep the user as awaiting a second factor, rather than logging them in,
+   * unless the factor being recorded is their second.
+   */
+  partial?: boolean;
+}
+
+export interface ImpersonateOptions {
+  /**
+   * How long, in seconds, impersonation lasts before the impersonator is
+   * returned to their own identity, defaults to one hour.
+   */
+  maxAge?: number;
+}
+
+const DEFAULT_IMPERSONATION_MAX_AGE = 3600;
 
 export class SessionManager<U, SU> {
+  private _session?: Promise<Session<SU>>;
+
   constructor(
     private _sessionOptions: SessionOptions,
     private _serializeUser?: SerializeUser<U, SU>,
+    private _cookies?: CookieJar,
   ) {}
 
-  async getSession() {
-    return getSession<SU>(this._sessionOptions);
+  /**
+   * Create a session manager bound to `req`.
+   *
+   * The session is read from the cookies of the request, and changes to it
+   * are kept until they are applied to the response with
+   * {@link SessionManager#commit `commit()`}.  This is required in middleware,
+   * and works the same in route handlers.  Without it, the session is read
+   * and written with `cookies()` from `next/headers`, which works in route
+   * handlers and server actions only.
+   */
+  forRequest(req: NextRequest): SessionManager<U, SU> {
+    return new SessionManager(
+      this._sessionOptions,
+      this._serializeUser,
+      new CookieJar(req.cookies),
+    );
+  }
+
+  /**
+   * Apply the session cookie, if it was changed, to `response`.
+   */
+  commit<R extends Response>(response: R): R | Response {
+    return this._cookies?.applyTo(response) ?? response;
+  }
+
+  async getSession(): Promise<Session<SU>> {
+    if (!this._cookies) {
+      return getSession<SU>(this._sessionOptions);
+    }
+
+    // a bound session manager opens the session once per request, so that
+    // every change is made to the same session object
+    this._session ??= getSession<SU>(this._sessionOptions, this._cookies);
+    return this._session;
+  }
+
+  /**
+   * Log `user` in, regenerating the session so that an identifier planted
+   * before login is not carried into the login session.  Only the state
+   * needed to complete the login, such as `returnTo` and flash messages, is
+   * kept, unless `keepSessionInfo` is set.
+   *
+   * The factor with which the user authenticated is recorded, along with
+   * those they had already completed in the session, if they are the user
+   * logged in or awaiting a second factor.  The info of the first factor is
+   * then kept as the info of the login.
+   */
+  async logIn(
+    user: U,
+    info?: unknown,
+    options: LogInOptions = {},
+  ): Promise<void> {
+    const session = await this.getSession();
+    const userDto = await this._serializeUser?.(user);
+    const previous = session.pendingUser ?? session.user;
+    const sameUser =
+      previous !== undefined &&
+      JSON.stringify(previous) === JSON.stringify(userDto);
+    const factors = addFactor(
+      sameUser ? session.authFactors : undefined,
+      options.method ?? 'signIn',
+    );
+    const authInfo = sameUser ? session.authInfo : undefined;
+
+    await session.regenerate(
+      options.keepSessionInfo
+        ? sessionInfo(session).filter(
+            key =>
+              key !== 'createdAt' &&
+              key !== 'lastActiveAt' &&
+              key !== 'impersonation',
+          )
+        : ['returnTo', 'flash', 'messages'],
+    );
+    // a user who has now completed two factors is not kept waiting for one
+    if (options.partial && assuranceOf(factors).level < 2) {
+      delete session.user;
+      session.pendingUser = userDto;
+    } else {
+      delete session.pendingUser;
+      session.user = userDto;
+    }
+    session.authFactors = factors;
+    // messages are flashed rather than kept as the info of the login session
+    if (authInfo) {
+      session.authInfo = authInfo;
+    } else if (typeof info === 'object' && info !== null) {
+      session.authInfo = info;
+    } else {
+      delete session.authInfo;
+    }
+    await session.save();
+  }
+
+  /**
+   * Move the session to a new identifier, keeping its data, such as when the
+   * privileges of the logged in user change.
+   */
+  async regenerate(): Promise<void> {
+    const session = await this.getSession();
+    await session.regenerate(sessionInfo(session));
+    await session.save();
   }
 
-  async logIn(user: U): Promise<void> {
+  /**
+   * Log in as `user` on behalf of the logged in user, such as for support
+   * staff to see the application as a customer does.
+   *
+   * The impersonator is kept in the session, and marked in its auth info as
+   * `impersonator`, until {@link SessionManager#stopImpersonating `stopImpersonating()`}
+   * is called or `maxAge` passes.  An impersonated user cannot impersonate
+   * another.
+   */
+  async impersonate(user: U, options: ImpersonateOptions = {}): Promise<void> {
     const session = await this.getSession();
+    if (session.user === undefined) {
+      throw new Error('Only a logged in user can impersonate another');
+    }
+    if (session.impersonation) {
+      throw new Error('An impersonated user cannot impersonate another');
+    }
+
     const userDto = await this._serializeUser?.(user);
+    const now = Date.now();
+    const impersonation = {
+      impersonator: session.user,
+      authInfo: session.authInfo,
+      startedAt: now,
+      expires: now + (options.maxAge ?? DEFAULT_IMPERSONATION_MAX_AGE) * 1000,
+    };
+    await session.regenerate(sessionInfo(session));
+    session.impersonation = impersonation;
     session.user = userDto;
+    session.authInfo = {impersonator: impersonation.impersonator};
+    await session.save();
+  }
+
+  /**
+   * Return to the identity of the user who started impersonating, if the
+   * session is being impersonated.
+   */
+  async stopImpersonating(): Promise<void> {
+    const session = await this.getSession();
+    const impersonation = session.impersonation;
+    if (!impersonation) {
+      return;
+    }
+
+    await session.regenerate(sessionInfo(session));
+    delete session.impersonation;
+    session.user = impersonation.impersonator;
+    if (impersonation.authInfo) {
+      session.authInfo = impersonation.authInfo;
+    } else {
+      delete session.authInfo;
+    }
     await session.save();
   }
 
@@ -26,10 +223,66 @@ export class SessionManager<U, SU> {
     // this will ensure that re-using the old session id
     // does not have a logged in user
     delete session.user;
+    delete session.pendingUser;
+    delete session.authInfo;
+    delete session.authFactors;
+    delete session.impersonation;
     await session.save();
 
     // destroy the session
-    session.destroy();
+    await session.destroy();
+  }
+
+  /**
+   * List the sessions to which `user` is logged in, such as to show them the
+   * devices they are signed in on.  Requires a session store.
+   */
+  async listSessions(user: U): Promise<StoredSession[]> {
+    const store = this._requireStore();
+    const serialized = await this._serializeUser?.(user);
+    if (serialized === undefined) {
+      return [];
+    }
+    return store.listByUser(userKey(serialized));
+  }
+
+  /**
+   * Revoke the session with the given identifier, logging out whoever holds
+   * its cookie.  Requires a session store.
+   */
+  async revokeSession(id: string): Promise<void> {
+    await this._requireStore().destroy(id);
+  }
+
+  /**
+   * Revoke every session to which `user` is logged in.  Requires a session
+   * store.
+   */
+  async revokeSessions(user: U): Promise<void> {
+    for (const session of await this.listSessions(user)) {
+      await this.revokeSession(session.id);
+    }
+  }
+
+  /**
+   * Count the sessions whose cookie is still sealed with a secret other than
+   * the newest one, so that a retired secret can be removed once none are
+   * left.  Requires a session store that can list every session.
+   *
+   * Sessions sealed with a retired secret are sealed again with the newest
+   * one the next time they are saved.
+   */
+  async countSessionsOnRetiredSecrets(): Promise<number> {
+    const store = this._requireStore();
+    if (!store.all) {
+      throw new Error('The session store cannot list every session');
+    }
+
+    const version = currentSecretVersion(
+      normalizeSecret(this._sessionOptions.secret),
+    );
+    const sessions = await store.all();
+    return sessions.filter(session => session.secretVersion !== version).length;
   }
 
   async setFlash(name: FlashType, message: string): Promise<void> {
@@ -56,6 +309,18 @@ export class SessionManager<U, SU> {
     return session.messages ?? [];
   }
 
+  /**
+   * Get the serialized user for whom a further factor is being verified: the
+   * user awaiting a second factor, or else the logged in user.
+   */
+  async getFactorUser(): Promise<SU | undefined> {
+    const session = await this.getSession();
+    if (isExpired(session, this._sessionOptions)) {
+      return undefined;
+    }
+    return session.pendingUser ?? session.user;
+  }
+
   async isAuthenticated(): Promise<boolean> {
     return !(await this.isUnauthenticated());
   }
@@ -65,6 +330,12 @@ export class SessionManager<U, SU> {
     return session.user === undefined;
   }
 
+  async setReturnTo(url: string): Promise<void> {
+    const session = await this.getSession();
+    session.returnTo = url;
+    await session.save();
+  }
+
   async pluckReturnTo(): Promise<string | undefined> {
     const session = await this.getSession();
     const returnTo = session.returnTo;
@@ -72,4 +343,37 @@ export class SessionManager<U, SU> {
     await session.save();
     return returnTo;
   }
+
+  async setAuthorizationState(
+    key: string,
+    state: AuthorizationState,
+  ): Promise<void> {
+    const session = await this.getSession();
+    session.authorizationState ??= {};
+    session.authorizationState[key] = state;
+    await session.save();
+  }
+
+  async pluckAuthorizationState(
+    key: string,
+  ): Promise<AuthorizationState | undefined> {
+    const session = await this.getSession();
+    const state = session.authorizationState?.[key];
+    if (state) {
+      delete session.authorizationState![key];
+      await session.save();
+    }
+    return state;
+  }
+
+  private _requireStore(): SessionStore {
+    if (!this._sessionOptions.store) {
+      throw new Error('Sessions can only be listed and revoked with a store');
+    }
+    return this._sessionOptions.store;
+  }
+}
+
+function sessionInfo<SU>(session: Session<SU>): (keyof SessionData<SU>)[] {
+  return Object.keys(session) as (keyof SessionData<SU>)[];
 }
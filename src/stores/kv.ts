@@ -0,0 +1,190 @@
+import {SessionStore, StoredSession} from '../interfaces/sessionstore';
+
+/**
+ * The operations of a key-value store needed by `KVStore`, which clients of
+ * Redis, Vercel KV, Cloudflare Workers KV and the like can be adapted to.
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null | undefined>;
+
+  /**
+   * Set `key` to `value`, expiring after `ttl` seconds when given.
+   */
+  set(key: string, value: string, ttl?: number): Promise<unknown>;
+
+  delete(key: string): Promise<unknown>;
+
+  /**
+   * List the keys starting with `prefix`, which is only needed to list every
+   * session with `KVStore#all()`.
+   */
+  keys?(prefix: string): Promise<string[]>;
+}
+
+export interface KVStoreOptions {
+  /**
+   * Prefix of the keys under which sessions are stored, defaults to
+   * `'session:'`.
+   */
+  prefix?: string;
+}
+
+/**
+ * A `SessionStore` keeping sessions in a key-value store.
+ *
+ * Each session is stored as JSON under its own key, which expires along with
+ * the session.  The identifiers of the sessions of each user are kept under
+ * another key, so that they can be listed.  Updates to that list are not
+ * atomic, so a session that is created concurrently with another one of the
+ * same user may be missing from it.
+ *
+ * @example
+ * const passport = new Authenticator({
+ *   secret: process.env.SESSION_SECRET,
+ *   store: new KVStore({
+ *     get: key => redis.get(key),
+ *     set: (key, value, ttl) => redis.set(key, value, ttl ? {EX: ttl} : {}),
+ *     delete: key => redis.del(key),
+ *   }),
+ * });
+ */
+export class KVStore implements SessionStore {
+  private _prefix: string;
+
+  constructor(
+    private _client: KeyValueClient,
+    options: KVStoreOptions = {},
+  ) {
+    this._prefix = options.prefix ?? 'session:';
+  }
+
+  async get(id: string): Promise<StoredSession | undefined> {
+    const value = await this._client.get(this._sessionKey(id));
+    if (!value) {
+      return undefined;
+    }
+    const session: StoredSession = JSON.parse(value);
+    return session.expires === undefined || session.expires > Date.now()
+      ? session
+      : undefined;
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    const previous = await this.get(session.id);
+    await this._write(session);
+
+    if (previous?.user !== session.user) {
+      if (previous?.user !== undefined) {
+        await this._updateIndex(previous.user, ids =>
+          ids.filter(id => id !== session.id),
+        );
+      }
+      if (session.user !== undefined) {
+        await this._updateIndex(session.user, ids =>
+          ids.includes(session.id) ? ids : [...ids, session.id],
+        );
+      }
+    }
+  }
+
+  async destroy(id: string): Promise<void> {
+    const session = await this.get(id);
+    await this._client.delete(this._sessionKey(id));
+    if (session?.user !== undefined) {
+      await this._updateIndex(session.user, ids =>
+        ids.filter(other => other !== id),
+      );
+    }
+  }
+
+  async touch(id: string, expires?: number): Promise<void> {
+    const session = await this.get(id);
+    if (session) {
+      await this._write({...session, expires});
+    }
+  }
+
+  async listByUser(user: string): Promise<StoredSession[]> {
+    const sessions: StoredSession[] = [];
+    const ids = await this._readIndex(user);
+    for (const id of ids) {
+      const session = await this.get(id);
+      if (session?.user === user) {
+        sessions.push(session);
+      }
+    }
+
+    // drop the sessions that have expired, or were logged out, since the
+    // list was last written
+    if (sessions.length !== ids.length) {
+      await this._writeIndex(
+        user,
+        sessions.map(session => session.id),
+      );
+    }
+    return sessions;
+  }
+
+  /**
+   * List every session in the store.  Requires a client that can list keys,
+   * and reads every session, so it is meant for occasional maintenance.
+   */
+  async all(): Promise<StoredSession[]> {
+    if (!this._client.keys) {
+      throw new Error('KVStore cannot list sessions without keys()');
+    }
+
+    const sessions: StoredSession[] = [];
+    const userPrefix = this._userKey('');
+    for (const key of await this._client.keys(this._prefix)) {
+      if (key.startsWith(userPrefix)) {
+        continue;
+      }
+      const session = await this.get(key.slice(this._prefix.length));
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  private async _write(session: StoredSession): Promise<void> {
+    const ttl =
+      session.expires === undefined
+        ? undefined
+        : Math.max(Math.ceil((session.expires - Date.now()) / 1000), 1);
+    await this._client.set(
+      this._sessionKey(session.id),
+      JSON.stringify(session),
+      ttl,
+    );
+  }
+
+  private async _readIndex(user: string): Promise<string[]> {
+    const value = await this._client.get(this._userKey(user));
+    return value ? JSON.parse(value) : [];
+  }
+
+  private async _writeIndex(user: string, ids: string[]): Promise<void> {
+    if (ids.length) {
+      await this._client.set(this._userKey(user), JSON.stringify(ids));
+    } else {
+      await this._client.delete(this._userKey(user));
+    }
+  }
+
+  private async _updateIndex(
+    user: string,
+    update: (ids: string[]) => string[],
+  ): Promise<void> {
+    await this._writeIndex(user, update(await this._readIndex(user)));
+  }
+
+  private _sessionKey(id: string): string {
+    return `${this._prefix}${id}`;
+  }
+
+  private _userKey(user: string): string {
+    return `${this._prefix}user:${user}`;
+  }
+}
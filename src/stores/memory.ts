@@ -0,0 +1,81 @@
+import {SessionStore, StoredSession} from '../interfaces/sessionstore';
+
+/**
+ * A `SessionStore` keeping sessions in memory.
+ *
+ * Sessions are lost when the process exits and are not shared between
+ * processes, so this store is meant for development and tests, or for
+ * applications served by a single long-running server.
+ *
+ * @example
+ * const passport = new Authenticator({
+ *   secret: process.env.SESSION_SECRET,
+ *   store: new MemoryStore(),
+ * });
+ */
+export class MemoryStore implements SessionStore {
+  private _sessions = new Map<string, StoredSession>();
+
+  async get(id: string): Promise<StoredSession | undefined> {
+    const session = this._sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    if (isExpired(session, Date.now())) {
+      this._sessions.delete(id);
+      return undefined;
+    }
+    return copy(session);
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    this._sessions.set(session.id, copy(session));
+  }
+
+  async destroy(id: string): Promise<void> {
+    this._sessions.delete(id);
+  }
+
+  async touch(id: string, expires?: number): Promise<void> {
+    const session = this._sessions.get(id);
+    if (session) {
+      session.expires = expires;
+    }
+  }
+
+  async listByUser(user: string): Promise<StoredSession[]> {
+    const now = Date.now();
+    const sessions: StoredSession[] = [];
+    for (const [id, session] of this._sessions) {
+      if (isExpired(session, now)) {
+        this._sessions.delete(id);
+      } else if (session.user === user) {
+        sessions.push(copy(session));
+      }
+    }
+    return sessions;
+  }
+
+  async all(): Promise<StoredSession[]> {
+    const now = Date.now();
+    const sessions: StoredSession[] = [];
+    for (const [id, session] of this._sessions) {
+      if (isExpired(session, now)) {
+        this._sessions.delete(id);
+      } else {
+        sessions.push(copy(session));
+      }
+    }
+    return sessions;
+  }
+}
+
+function isExpired(session: StoredSession, now: number): boolean {
+  return session.expires !== undefined && session.expires <= now;
+}
+
+// sessions are copied in and out of the store, so that changes made to a
+// session are only kept once it is saved
+function copy(session: StoredSession): StoredSession {
+  return JSON.parse(JSON.stringify(session));
+}
@@ -0,0 +1,35 @@
+import {AttemptStore, Attempts} from '../interfaces/attemptstore';
+
+/**
+ * An `AttemptStore` keeping the counts of failed attempts in memory, which
+ * `throttle` uses when no store is given.  Requests spread over several
+ * servers are then throttled by each of them separately.
+ *
+ * @example
+ * passport.authenticate('local', {throttle: {store: new MemoryAttemptStore()}});
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private _attempts = new Map<string, Attempts>();
+
+  async get(key: string): Promise<Attempts | undefined> {
+    const attempts = this._attempts.get(key);
+    if (!attempts || attempts.expires <= Date.now()) {
+      return undefined;
+    }
+    return {...attempts};
+  }
+
+  async set(key: string, attempts: Attempts): Promise<void> {
+    const now = Date.now();
+    for (const [k, stored] of this._attempts) {
+      if (stored.expires <= now) {
+        this._attempts.delete(k);
+      }
+    }
+    this._attempts.set(key, {...attempts});
+  }
+
+  async delete(key: string): Promise<void> {
+    this._attempts.delete(key);
+  }
+}
@@ -0,0 +1,34 @@
+import {StoredToken, TokenStore} from '../interfaces/tokenstore';
+
+/**
+ * A `TokenStore` keeping login tokens in memory, so that a link only works
+ * on the server that sent it.  Expired tokens are removed whenever a token is
+ * added.
+ *
+ * @example
+ * passport.use(
+ *   new MagicLinkStrategy({store: new MemoryTokenStore(), ...}, verify),
+ * );
+ */
+export class MemoryTokenStore implements TokenStore {
+  private _tokens = new Map<string, StoredToken>();
+
+  async set(token: StoredToken): Promise<void> {
+    const now = Date.now();
+    for (const [hash, stored] of this._tokens) {
+      if (stored.expires <= now) {
+        this._tokens.delete(hash);
+      }
+    }
+    this._tokens.set(token.hash, {...token});
+  }
+
+  async consume(hash: string): Promise<StoredToken | undefined> {
+    const token = this._tokens.get(hash);
+    this._tokens.delete(hash);
+    if (!token || token.expires <= Date.now()) {
+      return undefined;
+    }
+    return token;
+  }
+}
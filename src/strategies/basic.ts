@@ -0,0 +1,119 @@
+import {Strategy, VerifyResult} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {formatChallenge, parseAuthorization} from '../utils/challenge';
+import {NextResponse} from 'next/server';
+
+export interface BasicStrategyOptions {
+  /**
+   * Realm reported in the `WWW-Authenticate` challenge, defaults to
+   * `'Users'`.
+   */
+  realm?: string;
+}
+
+export interface BasicVerify<U> {
+  (
+    userid: string,
+    password: string,
+    context: AuthenticateContext,
+  ): Promise<VerifyResult<U>>;
+}
+
+/**
+ * This `Strategy` authenticates requests using the HTTP Basic scheme, as
+ * specified by {@link https://datatracker.ietf.org/doc/html/rfc7617 RFC 7617}.
+ *
+ * The user ID and password are decoded from the `Authorization` header, as
+ * UTF-8, and passed to the `verify` function.  Failed requests are challenged
+ * to send credentials, which prompts browsers to show a login dialog.
+ *
+ * @example
+ * passport.use(
+ *   new BasicStrategy(async (userid, password) => {
+ *     const user = await User.findOne({username: userid});
+ *     if (!user || !(await user.verifyPassword(password))) {
+ *       return {user: false};
+ *     }
+ *     return {user};
+ *   }),
+ * );
+ */
+export class BasicStrategy<U> extends Strategy<U> {
+  public readsCookies = false;
+  private _realm: string;
+  private _verify: BasicVerify<U>;
+
+  constructor(verify: BasicVerify<U>);
+  constructor(options: BasicStrategyOptions, verify: BasicVerify<U>);
+  constructor(
+    optionsOrVerify: BasicStrategyOptions | BasicVerify<U>,
+    verify?: BasicVerify<U>,
+  ) {
+    super('basic');
+
+    let options: BasicStrategyOptions = {};
+    if (typeof optionsOrVerify === 'function') {
+      verify = optionsOrVerify;
+    } else {
+      options = optionsOrVerify;
+    }
+    if (!verify) {
+      throw new TypeError('BasicStrategy requires a verify function');
+    }
+
+    this._realm = options.realm ?? 'Users';
+    this._verify = verify;
+  }
+
+  /**
+   * Authenticate request based on the credentials in the `Authorization`
+   * header.
+   *
+   * Requests with malformed credentials fail with a `400` status.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const parsed = parseAuthorization(
+      context.request.headers.get('authorization'),
+    );
+    if (parsed?.scheme !== 'basic') {
+      return this.fail(this._challenge());
+    }
+
+    let decoded: string;
+    try {
+      const bytes = Uint8Array.from(atob(parsed.credentials), c =>
+        c.charCodeAt(0),
+      );
+      decoded = new TextDecoder('utf-8', {fatal: true}).decode(bytes);
+    } catch {
+      return this.fail(400);
+    }
+
+    const index = decoded.indexOf(':');
+    if (index === -1) {
+      return this.fail(400);
+    }
+    const userid = decoded.slice(0, index);
+    const password = decoded.slice(index + 1);
+    if (!userid || !password) {
+      return this.fail(this._challenge());
+    }
+
+    let result: VerifyResult<U>;
+    try {
+      result = await this._verify(userid, password, context);
+    } catch (err) {
+      return this.error(err as Error);
+    }
+
+    const {user, info} = result;
+    if (!user) {
+      return this.fail(this._challenge());
+    }
+    return this.success(user, info ?? {});
+  }
+
+  private _challenge(): string {
+    return formatChallenge('Basic', {realm: this._realm, charset: 'UTF-8'});
+  }
+}
@@ -0,0 +1,153 @@
+import {Strategy, VerifyResult} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {
+  formatChallenge,
+  messageFromInfo,
+  parseAuthorization,
+} from '../utils/challenge';
+import {NextResponse} from 'next/server';
+
+export interface BearerStrategyOptions {
+  /**
+   * Realm reported in the `WWW-Authenticate` challenge, defaults to
+   * `'Users'`.
+   */
+  realm?: string;
+
+  /**
+   * Scope required to access the protected resource, reported in the
+   * `WWW-Authenticate` challenge.
+   */
+  scope?: string | string[];
+}
+
+export interface BearerVerify<U> {
+  (token: string, context: AuthenticateContext): Promise<VerifyResult<U>>;
+}
+
+/**
+ * This `Strategy` authenticates requests carrying a bearer token, as
+ * specified by {@link https://datatracker.ietf.org/doc/html/rfc6750 RFC 6750}.
+ *
+ * The token is read from the `Authorization` header, an `access_token` field
+ * of a form body, or an `access_token` query parameter.  It is passed to the
+ * `verify` function, which resolves with the user the token was issued to.
+ * Any `info` it resolves with, such as the scope of the token, is passed on to
+ * `success()`.
+ *
+ * Bearer tokens are typically used to protect API endpoints, and are sent
+ * with every request, so this strategy is usually used along with the
+ * `session: false` option.
+ *
+ * @example
+ * passport.use(
+ *   new BearerStrategy(async token => {
+ *     const grant = await AccessToken.findOne({token});
+ *     if (!grant) {
+ *       return {user: false};
+ *     }
+ *     return {user: grant.user, info: {scope: grant.scope}};
+ *   }),
+ * );
+ */
+export class BearerStrategy<U> extends Strategy<U> {
+  public readsCookies = false;
+  private _realm: string;
+  private _scope?: string[];
+  private _verify: BearerVerify<U>;
+
+  constructor(verify: BearerVerify<U>);
+  constructor(options: BearerStrategyOptions, verify: BearerVerify<U>);
+  constructor(
+    optionsOrVerify: BearerStrategyOptions | BearerVerify<U>,
+    verify?: BearerVerify<U>,
+  ) {
+    super('bearer');
+
+    let options: BearerStrategyOptions = {};
+    if (typeof optionsOrVerify === 'function') {
+      verify = optionsOrVerify;
+    } else {
+      options = optionsOrVerify;
+    }
+    if (!verify) {
+      throw new TypeError('BearerStrategy requires a verify function');
+    }
+
+    this._realm = options.realm ?? 'Users';
+    if (options.scope) {
+      this._scope = Array.isArray(options.scope)
+        ? options.scope
+        : [options.scope];
+    }
+    this._verify = verify;
+  }
+
+  /**
+   * Authenticate request based on the contents of a bearer token.
+   *
+   * Requests without a token fail with a bare challenge, while requests that
+   * send more than one token, or a malformed `Authorization` header, fail
+   * with a `400` status and an `invalid_request` error.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const tokens: string[] = [];
+
+    const authorization = context.request.headers.get('authorization');
+    if (authorization) {
+      const parsed = parseAuthorization(authorization);
+      if (parsed?.scheme === 'bearer') {
+        if (!parsed.credentials) {
+          return this.fail(this._challenge('invalid_request'), 400, {
+            wwwAuthenticate: true,
+          });
+        }
+        tokens.push(parsed.credentials);
+      }
+    }
+
+    const contentType = context.request.headers.get('content-type') ?? '';
+    if (/^application\/x-www-form-urlencoded/i.test(contentType)) {
+      const body = await context.body();
+      if (typeof body.access_token === 'string') {
+        tokens.push(body.access_token);
+      }
+    }
+
+    const queryToken = context.url.searchParams.get('access_token');
+    if (queryToken) {
+      tokens.push(queryToken);
+    }
+
+    if (tokens.length === 0) {
+      return this.fail(this._challenge());
+    }
+    if (tokens.length > 1) {
+      return this.fail(this._challenge('invalid_request'), 400, {
+        wwwAuthenticate: true,
+      });
+    }
+
+    let result: VerifyResult<U>;
+    try {
+      result = await this._verify(tokens[0], context);
+    } catch (err) {
+      return this.error(err as Error);
+    }
+
+    const {user, info} = result;
+    if (!user) {
+      return this.fail(this._challenge('invalid_token', messageFromInfo(info)));
+    }
+    return this.success(user, info ?? {});
+  }
+
+  private _challenge(error?: string, description?: string): string {
+    return formatChallenge('Bearer', {
+      realm: this._realm,
+      scope: this._scope?.join(' '),
+      error,
+      error_description: description,
+    });
+  }
+}
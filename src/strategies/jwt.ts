@@ -0,0 +1,282 @@
+import {Strategy, VerifyResult} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {JwtError} from '../errors/jwterror';
+import {formatChallenge, parseAuthorization} from '../utils/challenge';
+import {RemoteKeySet} from '../utils/jwks';
+import {
+  DecodedJwt,
+  JwtPayload,
+  decodeJwt,
+  importJwk,
+  importPem,
+  importSecret,
+  validateClaims,
+  verifySignature,
+} from '../utils/jwt';
+import {NextResponse} from 'next/server';
+
+/**
+ * Where in the request to look for a token: a header, optionally prefixed by
+ * an authentication scheme, a cookie or a query parameter.
+ */
+export type JwtLocation =
+  | {header: string; scheme?: string}
+  | {cookie: string}
+  | {query: string};
+
+/**
+ * A key used to verify token signatures.  Strings and byte arrays are HMAC
+ * secrets, unless the string is a PEM encoded public key.
+ */
+export type JwtKey = string | Uint8Array | JsonWebKey | CryptoKey;
+
+export interface JwtStrategyOptions {
+  /**
+   * Name of the strategy, defaults to `'jwt'`.
+   */
+  name?: string;
+
+  /**
+   * Signing algorithms that are accepted, such as `['HS256']` or
+   * `['RS256', 'ES256']`.
+   */
+  algorithms: string[];
+
+  /**
+   * Key used to verify signatures.  Either `key` or `jwksURL` is required.
+   */
+  key?: JwtKey;
+
+  /**
+   * URL of a JSON Web Key Set from which the key used to verify signatures is
+   * chosen by the token's `kid`.
+   */
+  jwksURL?: string;
+
+  /**
+   * Where to look for the token, in order, defaults to the `Authorization`
+   * header with the `Bearer` scheme.
+   */
+  tokenFrom?: JwtLocation | JwtLocation[];
+
+  /**
+   * Accepted values of the `iss` claim.
+   */
+  issuer?: string | string[];
+
+  /**
+   * Accepted values of the `aud` claim.
+   */
+  audience?: string | string[];
+
+  /**
+   * Leeway, in seconds, allowed when checking `exp`, `nbf` and `iat`, to
+   * account for clock skew between servers, defaults to 30.
+   */
+  clockTolerance?: number;
+
+  /**
+   * Realm reported in the `WWW-Authenticate` challenge, defaults to
+   * `'Users'`.
+   */
+  realm?: string;
+
+  /**
+   * The `fetch` implementation used to load the key set from `jwksURL`.
+   */
+  fetch?: typeof fetch;
+}
+
+export interface JwtVerify<U, P extends JwtPayload> {
+  (payload: P, context: AuthenticateContext): Promise<VerifyResult<U>>;
+}
+
+/**
+ * This `Strategy` authenticates requests carrying a signed JSON Web Token.
+ *
+ * The token is verified with the Web Crypto API only, so that this strategy
+ * can be used in the Edge runtime, such as in `middleware.ts`.  Once its
+ * signature and registered claims are valid, the payload is passed to the
+ * optional `verify` function.  Without one, the payload itself is the
+ * authenticated user, so that no database call is made.
+ *
+ * Unless the `verify` function resolves with other `info`, the payload is
+ * passed as the `info` of a successful authentication, and so reaches the
+ * functions registered with `transformAuthInfo()`.
+ *
+ * @example
+ * passport.use(
+ *   new JwtStrategy({
+ *     algorithms: ['HS256'],
+ *     key: process.env.JWT_SECRET,
+ *     issuer: 'https://api.example.com',
+ *   }),
+ * );
+ */
+export class JwtStrategy<
+  U = JwtPayload,
+  P extends JwtPayload = JwtPayload,
+> extends Strategy<U> {
+  private _options: JwtStrategyOptions;
+  private _locations: JwtLocation[];
+  private _verify?: JwtVerify<U, P>;
+  private _keySet?: RemoteKeySet;
+  private _keys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(options: JwtStrategyOptions, verify?: JwtVerify<U, P>) {
+    super(options.name ?? 'jwt');
+
+    if (!options.key && !options.jwksURL) {
+      throw new TypeError('JwtStrategy requires a key or jwksURL');
+    }
+    if (!options.algorithms?.length) {
+      throw new TypeError('JwtStrategy requires a list of algorithms');
+    }
+
+    this._options = options;
+    this._locations = options.tokenFrom
+      ? Array.isArray(options.tokenFrom)
+        ? options.tokenFrom
+        : [options.tokenFrom]
+      : [{header: 'authorization', scheme: 'Bearer'}];
+    this.readsCookies = this._locations.some(location => 'cookie' in location);
+    this._verify = verify;
+    if (options.jwksURL) {
+      this._keySet = new RemoteKeySet(options.jwksURL, {
+        fetch: options.fetch,
+      });
+    }
+  }
+
+  /**
+   * Authenticate request based on the contents of a JSON Web Token.
+   *
+   * Requests without a token fail with a bare challenge, and requests with
+   * an invalid token fail with an `invalid_token` error.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const token = this._extract(context);
+    if (!token) {
+      return this.fail(this._challenge());
+    }
+
+    let payload: P;
+    try {
+      payload = await this._validate(token);
+    } catch (err) {
+      if (err instanceof JwtError) {
+        return this.fail(this._challenge('invalid_token', err.message));
+      }
+      return this.error(err as Error);
+    }
+
+    if (!this._verify) {
+      return this.success(payload as unknown as U, payload);
+    }
+
+    let result: VerifyResult<U>;
+    try {
+      result = await this._verify(payload, context);
+    } catch (err) {
+      return this.error(err as Error);
+    }
+
+    const {user, info} = result;
+    if (!user) {
+      return this.fail(this._challenge('invalid_token'));
+    }
+    return this.success(user, info ?? payload);
+  }
+
+  private _extract(context: AuthenticateContext): string | undefined {
+    for (const location of this._locations) {
+      let token: string | undefined;
+      if ('header' in location) {
+        const value = context.request.headers.get(location.header);
+        if (value && location.scheme) {
+          const parsed = parseAuthorization(value);
+          if (parsed?.scheme === location.scheme.toLowerCase()) {
+            token = parsed.credentials;
+          }
+        } else {
+          token = value ?? undefined;
+        }
+      } else if ('cookie' in location) {
+        token = context.cookies.get(location.cookie)?.value;
+      } else {
+        token = context.url.searchParams.get(location.query) ?? undefined;
+      }
+
+      if (token) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  private async _validate(token: string): Promise<P> {
+    const jwt = decodeJwt<P>(token);
+    const {alg} = jwt.header;
+    if (!this._options.algorithms.includes(alg)) {
+      throw new JwtError(`Unexpected algorithm "${alg}"`);
+    }
+
+    await verifySignature(jwt, await this._key(jwt));
+    validateClaims(jwt.payload, {
+      issuer: this._options.issuer,
+      audience: this._options.audience,
+      clockTolerance: this._options.clockTolerance ?? 30,
+    });
+    return jwt.payload;
+  }
+
+  private async _key(jwt: DecodedJwt<P>): Promise<CryptoKey> {
+    const {alg} = jwt.header;
+    const key = this._options.key;
+    if (!key) {
+      return this._keySet!.getKey(jwt.header);
+    }
+    if (isCryptoKey(key)) {
+      return key;
+    }
+
+    let imported = this._keys.get(alg);
+    if (!imported) {
+      if (typeof key === 'string' && key.includes('-----BEGIN PUBLIC KEY')) {
+        imported = importPem(key, alg);
+      } else if (typeof key === 'string' || key instanceof Uint8Array) {
+        imported = importSecret(key, alg);
+      } else {
+        imported = importJwk(key, alg);
+      }
+      // keys that fail to import are not cached, so that the error recurs
+      imported.catch(() => this._keys.delete(alg));
+      this._keys.set(alg, imported);
+    }
+    return imported.catch(err => {
+      throw err instanceof JwtError
+        ? err
+        : new JwtError(`Key cannot verify "${alg}" signatures`);
+    });
+  }
+
+  private _challenge(error?: string, description?: string): string {
+    return formatChallenge('Bearer', {
+      realm: this._options.realm ?? 'Users',
+      error,
+      error_description: description,
+    });
+  }
+}
+
+// `CryptoKey` is not a global before Node 19, so keys are recognized by
+// their shape rather than with `instanceof`
+function isCryptoKey(key: JwtKey): key is CryptoKey {
+  return (
+    typeof key === 'object' &&
+    !(key instanceof Uint8Array) &&
+    'algorithm' in key &&
+    'type' in key &&
+    'usages' in key
+  );
+}
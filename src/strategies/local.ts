@@ -0,0 +1,117 @@
+import {Strategy, VerifyResult} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {messageFromInfo} from '../utils/challenge';
+import {NextResponse} from 'next/server';
+
+export interface LocalStrategyOptions {
+  /**
+   * Name of the field containing the username, defaults to `'username'`.
+   */
+  usernameField?: string;
+
+  /**
+   * Name of the field containing the password, defaults to `'password'`.
+   */
+  passwordField?: string;
+
+  /**
+   * Challenge used when the username or password is missing, defaults to
+   * `'Missing credentials'`.
+   */
+  badRequestMessage?: string;
+}
+
+export interface LocalVerify<U> {
+  (
+    username: string,
+    password: string,
+    context: AuthenticateContext,
+  ): Promise<VerifyResult<U>>;
+}
+
+/**
+ * This `Strategy` authenticates users using a username and password.
+ *
+ * The credentials are read from the body of the request, which may be sent as
+ * `application/x-www-form-urlencoded`, `multipart/form-data` or JSON.  They
+ * are then passed to the `verify` function, which resolves with the user they
+ * belong to, or with `user: false` if they are not valid.
+ *
+ * @example
+ * passport.use(
+ *   new LocalStrategy(async (username, password) => {
+ *     const user = await User.findOne({username});
+ *     if (!user || !(await user.verifyPassword(password))) {
+ *       return {user: false, info: 'Incorrect username or password.'};
+ *     }
+ *     return {user};
+ *   }),
+ * );
+ */
+export class LocalStrategy<U> extends Strategy<U> {
+  public readsCookies = false;
+  private _usernameField: string;
+  private _passwordField: string;
+  private _badRequestMessage: string;
+  private _verify: LocalVerify<U>;
+
+  constructor(verify: LocalVerify<U>);
+  constructor(options: LocalStrategyOptions, verify: LocalVerify<U>);
+  constructor(
+    optionsOrVerify: LocalStrategyOptions | LocalVerify<U>,
+    verify?: LocalVerify<U>,
+  ) {
+    super('local');
+
+    let options: LocalStrategyOptions = {};
+    if (typeof optionsOrVerify === 'function') {
+      verify = optionsOrVerify;
+    } else {
+      options = optionsOrVerify;
+    }
+    if (!verify) {
+      throw new TypeError('LocalStrategy requires a verify function');
+    }
+
+    this._usernameField = options.usernameField ?? 'username';
+    this._passwordField = options.passwordField ?? 'password';
+    this._badRequestMessage =
+      options.badRequestMessage ?? 'Missing credentials';
+    this._verify = verify;
+  }
+
+  /**
+   * Authenticate request based on the contents of a form submission or JSON
+   * body.
+   *
+   * Requests that are missing either credential fail with a `400` status and
+   * the `badRequestMessage` challenge.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const body = await context.body();
+    const username = body[this._usernameField];
+    const password = body[this._passwordField];
+
+    if (
+      typeof username !== 'string' ||
+      typeof password !== 'string' ||
+      !username ||
+      !password
+    ) {
+      return this.fail(this._badRequestMessage, 400);
+    }
+
+    let result: VerifyResult<U>;
+    try {
+      result = await this._verify(username, password, context);
+    } catch (err) {
+      return this.error(err as Error);
+    }
+
+    const {user, info} = result;
+    if (!user) {
+      return this.fail(messageFromInfo(info));
+    }
+    return this.success(user, info ?? {});
+  }
+}
@@ -0,0 +1,218 @@
+import {Strategy, VerifyResult} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {FlashType} from '../interfaces/session';
+import {TokenStore} from '../interfaces/tokenstore';
+import {messageFromInfo} from '../utils/challenge';
+import {
+  base64UrlEncode,
+  randomString,
+  sha256,
+  timingSafeEqual,
+} from '../utils/crypto';
+import {NextResponse} from 'next/server';
+
+export interface MagicLinkStrategyOptions {
+  /**
+   * Name of the strategy, defaults to `'magiclink'`.
+   */
+  name?: string;
+
+  /**
+   * Store in which the hashes of sent tokens are kept until they are used or
+   * expire.
+   */
+  store: TokenStore;
+
+  /**
+   * Send `url`, the login link, to `email`.
+   */
+  send(email: string, url: string, context: AuthenticateContext): Promise<void>;
+
+  /**
+   * URL of the route that logs users in with the link, resolved against the
+   * URL of the request when relative.  The token is added to it as a query
+   * parameter.
+   */
+  callbackURL: string;
+
+  /**
+   * How long, in seconds, a link may be used after it is sent, defaults to
+   * 15 minutes.
+   */
+  ttl?: number;
+
+  /**
+   * Only accept a link in the browser in which it was requested, defaults to
+   * false.  The link is then bound to a nonce kept in the session.
+   */
+  sameBrowser?: boolean;
+
+  /**
+   * Name of the field containing the email address, defaults to `'email'`.
+   */
+  emailField?: string;
+
+  /**
+   * Name of the query parameter carrying the token, defaults to `'token'`.
+   */
+  tokenParam?: string;
+
+  /**
+   * Message flashed once the link is sent, defaults to
+   * `'Check your inbox for a link to log in.'`.
+   */
+  sentMessage?: string;
+
+  /**
+   * URL to redirect to once the link is sent.  The request is passed
+   * through when omitted.
+   */
+  sentRedirect?: string;
+
+  /**
+   * Challenge used when the email address is missing, defaults to
+   * `'Missing email'`.
+   */
+  badRequestMessage?: string;
+}
+
+export interface MagicLinkVerify<U> {
+  (email: string, context: AuthenticateContext): Promise<VerifyResult<U>>;
+}
+
+const DEFAULT_TTL = 15 * 60;
+
+/**
+ * This `Strategy` authenticates users by a single-use link sent to their
+ * email address.
+ *
+ * When first invoked, the email address is read from the body of the request,
+ * and a link carrying a random token is sent to it with `send`.  Only the
+ * hash of the token is kept, in the `store`, until it expires.  When the user
+ * follows the link, this strategy is invoked a second time: the token is
+ * consumed, so that the link cannot be used again, and the `verify` function
+ * is called with the email address to which it was sent.
+ *
+ * The same message is flashed whether or not the email address belongs to a
+ * user, so that the form does not reveal who has an account.
+ *
+ * @example
+ * passport.use(
+ *   new MagicLinkStrategy(
+ *     {
+ *       store: new MemoryTokenStore(),
+ *       callbackURL: '/auth/callback/magiclink',
+ *       send: async (email, url) => {
+ *         await mailer.send({to: email, text: `Log in: ${url}`});
+ *       },
+ *     },
+ *     async email => ({user: await User.findOne({email})}),
+ *   ),
+ * );
+ */
+export class MagicLinkStrategy<U> extends Strategy<U> {
+  private _options: MagicLinkStrategyOptions;
+  private _verify: MagicLinkVerify<U>;
+
+  constructor(options: MagicLinkStrategyOptions, verify: MagicLinkVerify<U>) {
+    super(options.name ?? 'magiclink');
+
+    if (!verify) {
+      throw new TypeError('MagicLinkStrategy requires a verify function');
+    }
+
+    this._options = options;
+    this._verify = verify;
+  }
+
+  /**
+   * Authenticate request by sending a login link, or by the token of a link
+   * that was followed.
+   *
+   * Requests carrying the token complete the flow, and all other requests
+   * send a link to the submitted email address.  Those that are missing it
+   * fail with a `400` status.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const token = context.url.searchParams.get(
+      this._options.tokenParam ?? 'token',
+    );
+
+    try {
+      if (token) {
+        return await this._consume(context, token);
+      }
+      return await this._send(context);
+    } catch (err) {
+      return this.error(err as Error);
+    }
+  }
+
+  private async _send(context: AuthenticateContext): Promise<NextResponse> {
+    const body = await context.body();
+    const email = body[this._options.emailField ?? 'email'];
+    if (typeof email !== 'string' || !email.trim()) {
+      return this.fail(this._options.badRequestMessage ?? 'Missing email', 400);
+    }
+
+    const token = randomString();
+    let browser: string | undefined;
+    if (this._options.sameBrowser) {
+      const session = await context.sessionManager.getSession();
+      session.magicLinkNonce ??= randomString();
+      await session.save();
+      browser = await hash(session.magicLinkNonce);
+    }
+
+    await this._options.store.set({
+      hash: await hash(token),
+      email: email.trim(),
+      expires: Date.now() + (this._options.ttl ?? DEFAULT_TTL) * 1000,
+      browser,
+    });
+
+    const url = new URL(this._options.callbackURL, context.url);
+    url.searchParams.set(this._options.tokenParam ?? 'token', token);
+    await this._options.send(email.trim(), url.toString(), context);
+
+    await context.sessionManager.setFlash(
+      FlashType.INFO,
+      this._options.sentMessage ?? 'Check your inbox for a link to log in.',
+    );
+    if (this._options.sentRedirect) {
+      return this.redirect(this._options.sentRedirect, 303);
+    }
+    return this.pass();
+  }
+
+  private async _consume(
+    context: AuthenticateContext,
+    token: string,
+  ): Promise<NextResponse> {
+    const stored = await this._options.store.consume(await hash(token));
+    if (!stored || stored.expires <= Date.now()) {
+      return this.fail('This login link is invalid or has expired.', 403);
+    }
+
+    if (stored.browser !== undefined) {
+      const session = await context.sessionManager.getSession();
+      const nonce = session.magicLinkNonce;
+      if (!nonce || !timingSafeEqual(await hash(nonce), stored.browser)) {
+        return this.fail(
+          'Open this login link in the browser in which you requested it.',
+          403,
+        );
+      }
+    }
+
+    const {user, info} = await this._verify(stored.email, context);
+    if (!user) {
+      return this.fail(messageFromInfo(info));
+    }
+    return this.success(user, info ?? {});
+  }
+}
+
+async function hash(value: string): Promise<string> {
+  return base64UrlEncode(await sha256(value));
+}
@@ -0,0 +1,349 @@
+import {Strategy, VerifyResult} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {AuthorizationState} from '../interfaces/session';
+import {AuthenticationError} from '../errors/authenticationerror';
+import {OAuth2Error} from '../errors/oauth2error';
+import {messageFromInfo} from '../utils/challenge';
+import {base64UrlEncode, randomString, sha256} from '../utils/crypto';
+import {NextResponse} from 'next/server';
+
+export interface OAuth2Endpoints {
+  /**
+   * URL of the authorization endpoint, to which users are redirected.
+   */
+  authorizationURL: string;
+
+  /**
+   * URL of the token endpoint, at which authorization codes are exchanged for
+   * tokens.
+   */
+  tokenURL: string;
+
+  /**
+   * URL from which the user's profile is fetched using the access token.  No
+   * profile is fetched when omitted.
+   */
+  profileURL?: string;
+}
+
+export interface OAuth2ClientOptions {
+  /**
+   * Name of the strategy, defaults to `'oauth2'`.
+   */
+  name?: string;
+
+  clientID: string;
+  clientSecret?: string;
+
+  /**
+   * URL to which the authorization server redirects users, resolved against
+   * the URL of the request when relative.
+   */
+  callbackURL: string;
+
+  /**
+   * Scope of the access being requested.
+   */
+  scope?: string | string[];
+
+  /**
+   * Use Proof Key for Code Exchange, as specified by
+   * {@link https://datatracker.ietf.org/doc/html/rfc7636 RFC 7636}, defaults
+   * to true.
+   */
+  pkce?: boolean;
+
+  /**
+   * How the client authenticates at the token endpoint, defaults to
+   * `'client_secret_basic'`.
+   */
+  clientAuthentication?: 'client_secret_basic' | 'client_secret_post';
+
+  /**
+   * Additional parameters to include in the authorization request.
+   */
+  authorizationParams?: Record<string, string>;
+
+  /**
+   * The `fetch` implementation used to make requests to the authorization
+   * server, defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+}
+
+export interface OAuth2StrategyOptions
+  extends OAuth2ClientOptions,
+    OAuth2Endpoints {}
+
+/**
+ * The tokens issued by the token endpoint.
+ */
+export interface OAuth2Tokens {
+  accessToken: string;
+  tokenType?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  scope?: string;
+  idToken?: string;
+
+  /**
+   * The token response, as sent by the authorization server.
+   */
+  raw: Record<string, unknown>;
+}
+
+export interface OAuth2Verify<U, P> {
+  (
+    tokens: OAuth2Tokens,
+    profile: P | undefined,
+    context: AuthenticateContext,
+  ): Promise<VerifyResult<U>>;
+}
+
+/**
+ * This `Strategy` authenticates users using an OAuth 2.0 provider, with the
+ * authorization code grant.
+ *
+ * When first invoked, the user is redirected to the provider's authorization
+ * endpoint, along with a `state` and, by default, a PKCE code challenge.  Both
+ * are kept in the session until the provider redirects the user back to the
+ * `callbackURL`, where this strategy is invoked a second time.  The `state`
+ * is checked, the authorization code is exchanged for tokens and the `verify`
+ * function is called with the tokens and the user's profile.
+ *
+ * @example
+ * passport.use(
+ *   new OAuth2Strategy(
+ *     {
+ *       authorizationURL: 'https://www.example.com/oauth2/authorize',
+ *       tokenURL: 'https://www.example.com/oauth2/token',
+ *       profileURL: 'https://www.example.com/oauth2/userinfo',
+ *       clientID: process.env.CLIENT_ID,
+ *       clientSecret: process.env.CLIENT_SECRET,
+ *       callbackURL: '/auth/example/callback',
+ *     },
+ *     async (tokens, profile) => {
+ *       return {user: await User.findOrCreate({exampleId: profile.sub})};
+ *     },
+ *   ),
+ * );
+ */
+export class OAuth2Strategy<
+  U,
+  P = Record<string, unknown>,
+> extends Strategy<U> {
+  protected _options: OAuth2StrategyOptions;
+  protected _fetch: typeof fetch;
+  private _verify: OAuth2Verify<U, P>;
+
+  constructor(options: OAuth2StrategyOptions, verify: OAuth2Verify<U, P>) {
+    super(options.name ?? 'oauth2');
+
+    this._options = options;
+    this._fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this._verify = verify;
+  }
+
+  /**
+   * Authenticate request by delegating to an OAuth 2.0 provider.
+   *
+   * Requests to the callback URL carrying a `code` complete the flow, those
+   * carrying an `error` fail, and all other requests start it.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const params = context.url.searchParams;
+
+    try {
+      const error = params.get('error');
+      if (error) {
+        const description = params.get('error_description') ?? undefined;
+        if (error === 'access_denied') {
+          return this.fail(description ?? 'Access denied');
+        }
+        throw new OAuth2Error(
+          error,
+          description,
+          params.get('error_uri') ?? undefined,
+        );
+      }
+
+      const code = params.get('code');
+      if (code) {
+        return await this._callback(context, code);
+      }
+      return await this._authorize(context);
+    } catch (err) {
+      if (err instanceof AuthenticationError) {
+        return this.fail(err.message, err.status);
+      }
+      return this.error(err as Error);
+    }
+  }
+
+  /**
+   * The endpoints of the authorization server.
+   */
+  protected async endpoints(): Promise<OAuth2Endpoints> {
+    return this._options;
+  }
+
+  /**
+   * Parameters added to the authorization request.  Subclasses may extend
+   * them, and may keep values needed on the callback in `state`.
+   */
+  protected async authorizationParams(
+    context: AuthenticateContext,
+    state: AuthorizationState,
+  ): Promise<Record<string, string>> {
+    return {...this._options.authorizationParams};
+  }
+
+  /**
+   * Load the user's profile.
+   *
+   * Fetches the profile from `profileURL`, when configured.  Subclasses may
+   * override this to load or validate the profile in other ways, and may
+   * throw an `AuthenticationError` to fail authentication.
+   */
+  protected async userProfile(
+    tokens: OAuth2Tokens,
+    state: AuthorizationState,
+  ): Promise<P | undefined> {
+    const {profileURL} = await this.endpoints();
+    if (!profileURL) {
+      return undefined;
+    }
+
+    const res = await this._fetch(profileURL, {
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${tokens.accessToken}`,
+      },
+    });
+    if (!res.ok) {
+      throw new OAuth2Error(
+        'invalid_profile',
+        `Failed to fetch user profile (status ${res.status})`,
+      );
+    }
+    return res.json();
+  }
+
+  private async _authorize(
+    context: AuthenticateContext,
+  ): Promise<NextResponse> {
+    const {authorizationURL} = await this.endpoints();
+    const state: AuthorizationState = {
+      state: randomString(),
+      redirectURI: new URL(this._options.callbackURL, context.url).toString(),
+    };
+
+    const url = new URL(authorizationURL);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this._options.clientID);
+    url.searchParams.set('redirect_uri', state.redirectURI);
+    url.searchParams.set('state', state.state);
+
+    const scope = this._options.scope;
+    if (scope) {
+      url.searchParams.set(
+        'scope',
+        Array.isArray(scope) ? scope.join(' ') : scope,
+      );
+    }
+
+    if (this._options.pkce !== false) {
+      state.codeVerifier = randomString();
+      url.searchParams.set(
+        'code_challenge',
+        base64UrlEncode(await sha256(state.codeVerifier)),
+      );
+      url.searchParams.set('code_challenge_method', 'S256');
+    }
+
+    const params = await this.authorizationParams(context, state);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    await context.sessionManager.setAuthorizationState(this.name, state);
+    return this.redirect(url.toString());
+  }
+
+  private async _callback(
+    context: AuthenticateContext,
+    code: string,
+  ): Promise<NextResponse> {
+    const state = await context.sessionManager.pluckAuthorizationState(
+      this.name,
+    );
+    if (!state) {
+      return this.fail('Unable to verify authorization request state.', 403);
+    }
+    if (context.url.searchParams.get('state') !== state.state) {
+      return this.fail('Invalid authorization request state.', 403);
+    }
+
+    const tokens = await this._exchange(code, state);
+    const profile = await this.userProfile(tokens, state);
+
+    const {user, info} = await this._verify(tokens, profile, context);
+    if (!user) {
+      return this.fail(messageFromInfo(info));
+    }
+    return this.success(user, info ?? {});
+  }
+
+  private async _exchange(
+    code: string,
+    state: AuthorizationState,
+  ): Promise<OAuth2Tokens> {
+    const {tokenURL} = await this.endpoints();
+    const {clientID, clientSecret, clientAuthentication} = this._options;
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: state.redirectURI,
+    });
+    if (state.codeVerifier) {
+      body.set('code_verifier', state.codeVerifier);
+    }
+
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (clientSecret && clientAuthentication !== 'client_secret_post') {
+      const credentials = `${encodeURIComponent(clientID)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${btoa(credentials)}`;
+    } else {
+      body.set('client_id', clientID);
+      if (clientSecret) {
+        body.set('client_secret', clientSecret);
+      }
+    }
+
+    const res = await this._fetch(tokenURL, {method: 'POST', headers, body});
+    const raw = (await res.json().catch(() => ({}))) as Record<string, any>;
+    if (!res.ok || typeof raw.access_token !== 'string') {
+      throw new OAuth2Error(
+        raw.error ?? 'invalid_response',
+        raw.error_description ??
+          `Failed to obtain access token (status ${res.status})`,
+        raw.error_uri,
+      );
+    }
+
+    return {
+      accessToken: raw.access_token,
+      tokenType: raw.token_type,
+      refreshToken: raw.refresh_token,
+      expiresIn:
+        raw.expires_in === undefined ? undefined : Number(raw.expires_in),
+      scope: raw.scope,
+      idToken: raw.id_token,
+      raw,
+    };
+  }
+}
@@ -0,0 +1,301 @@
+import {AuthenticateContext} from '../interfaces/context';
+import {AuthorizationState} from '../interfaces/session';
+import {VerifyResult} from '../interfaces/strategy';
+import {AuthenticationError} from '../errors/authenticationerror';
+import {JwtError} from '../errors/jwterror';
+import {OAuth2Error} from '../errors/oauth2error';
+import {randomString} from '../utils/crypto';
+import {RemoteKeySet} from '../utils/jwks';
+import {
+  JwtPayload,
+  decodeJwt,
+  importSecret,
+  validateClaims,
+  verifySignature,
+} from '../utils/jwt';
+import {
+  OAuth2ClientOptions,
+  OAuth2Endpoints,
+  OAuth2Strategy,
+  OAuth2StrategyOptions,
+  OAuth2Tokens,
+} from './oauth2';
+
+/**
+ * The metadata published by an OpenID provider at
+ * `/.well-known/openid-configuration`.
+ */
+export interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  id_token_signing_alg_values_supported?: string[];
+  [field: string]: unknown;
+}
+
+/**
+ * The validated claims of an ID token.
+ */
+export interface IdTokenClaims extends JwtPayload {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  auth_time?: number;
+  acr?: string;
+  amr?: string[];
+  azp?: string;
+}
+
+export interface OpenIDConnectStrategyOptions extends OAuth2ClientOptions {
+  /**
+   * Issuer identifier of the OpenID provider, from which its metadata is
+   * discovered.
+   */
+  issuer: string;
+
+  /**
+   * Leeway, in seconds, allowed when checking the times in the ID token,
+   * defaults to 60.
+   */
+  clockTolerance?: number;
+
+  /**
+   * How long, in seconds, the provider's signing keys are cached before they
+   * are reloaded, defaults to 600.
+   */
+  jwksCacheMaxAge?: number;
+
+  /**
+   * Load additional claims from the provider's UserInfo endpoint, defaults to
+   * false.
+   */
+  userInfo?: boolean;
+}
+
+export interface OpenIDConnectVerify<U> {
+  (
+    tokens: OAuth2Tokens,
+    claims: IdTokenClaims,
+    context: AuthenticateContext,
+  ): Promise<VerifyResult<U>>;
+}
+
+/**
+ * This `Strategy` authenticates users using an OpenID Connect provider.
+ *
+ * The provider's endpoints and signing keys are discovered from its issuer
+ * identifier, and cached.  The flow is that of `OAuth2Strategy`, with a
+ * `nonce` kept in the session alongside the `state`.  On the callback, the
+ * ID token's signature, `iss`, `aud`, `exp` and `nonce` are validated before
+ * the `verify` function is called with its claims.
+ *
+ * Unless the `verify` function resolves with other `info`, the claims are
+ * passed as the `info` of a successful authentication.
+ *
+ * @example
+ * passport.use(
+ *   new OpenIDConnectStrategy(
+ *     {
+ *       issuer: 'https://login.example.com',
+ *       clientID: process.env.CLIENT_ID,
+ *       clientSecret: process.env.CLIENT_SECRET,
+ *       callbackURL: '/auth/oidc/callback',
+ *       scope: ['openid', 'profile', 'email'],
+ *     },
+ *     async (tokens, claims) => {
+ *       return {user: await User.findOrCreate({subject: claims.sub})};
+ *     },
+ *   ),
+ * );
+ */
+export class OpenIDConnectStrategy<U> extends OAuth2Strategy<U, IdTokenClaims> {
+  private _issuer: string;
+  private _clockTolerance: number;
+  private _jwksCacheMaxAge?: number;
+  private _userInfo: boolean;
+  // a new instance is derived from the registered strategy for each request,
+  // so state shared between requests is kept in an object of its own
+  private _discovery: {
+    metadata?: Promise<ProviderMetadata>;
+    keySet?: RemoteKeySet;
+  } = {};
+
+  constructor(
+    options: OpenIDConnectStrategyOptions,
+    verify: OpenIDConnectVerify<U>,
+  ) {
+    const scope =
+      typeof options.scope === 'string'
+        ? options.scope.split(' ')
+        : options.scope ?? [];
+    const clientOptions: OAuth2ClientOptions = {
+      ...options,
+      name: options.name ?? 'openidconnect',
+      scope: scope.includes('openid') ? scope : ['openid', ...scope],
+    };
+    super(
+      // the endpoints are discovered, see `endpoints()`
+      clientOptions as OAuth2StrategyOptions,
+      async (tokens, claims, context) => {
+        const {user, info} = await verify(tokens, claims!, context);
+        return user ? {user, info: info ?? claims} : {user, info};
+      },
+    );
+
+    this._issuer = options.issuer.replace(/\/$/, '');
+    this._clockTolerance = options.clockTolerance ?? 60;
+    this._jwksCacheMaxAge = options.jwksCacheMaxAge;
+    this._userInfo = options.userInfo ?? false;
+  }
+
+  /**
+   * Load the provider's metadata.
+   *
+   * The metadata is loaded once and cached.  A failed load is retried on the
+   * next request.
+   */
+  async metadata(): Promise<ProviderMetadata> {
+    const discovery = this._discovery;
+    if (!discovery.metadata) {
+      const metadata = this._discover();
+      discovery.metadata = metadata;
+      metadata.catch(() => {
+        if (discovery.metadata === metadata) {
+          discovery.metadata = undefined;
+        }
+      });
+    }
+    return discovery.metadata;
+  }
+
+  protected async endpoints(): Promise<OAuth2Endpoints> {
+    const metadata = await this.metadata();
+    return {
+      authorizationURL: metadata.authorization_endpoint,
+      tokenURL: metadata.token_endpoint,
+      profileURL: metadata.userinfo_endpoint,
+    };
+  }
+
+  protected async authorizationParams(
+    context: AuthenticateContext,
+    state: AuthorizationState,
+  ): Promise<Record<string, string>> {
+    state.nonce = randomString();
+    return {
+      ...(await super.authorizationParams(context, state)),
+      nonce: state.nonce,
+    };
+  }
+
+  /**
+   * Validate the ID token and return its claims, merged with those from the
+   * UserInfo endpoint when the `userInfo` option is set.
+   */
+  protected async userProfile(
+    tokens: OAuth2Tokens,
+    state: AuthorizationState,
+  ): Promise<IdTokenClaims> {
+    if (!tokens.idToken) {
+      throw new OAuth2Error('invalid_response', 'No ID token was issued');
+    }
+
+    let claims: IdTokenClaims;
+    try {
+      claims = await this._validateIdToken(tokens.idToken, state);
+    } catch (err) {
+      if (err instanceof JwtError) {
+        throw new AuthenticationError(`Invalid ID token: ${err.message}`);
+      }
+      throw err;
+    }
+
+    if (this._userInfo) {
+      const userInfo = (await super.userProfile(tokens, state)) as
+        | JwtPayload
+        | undefined;
+      if (userInfo && userInfo.sub !== claims.sub) {
+        throw new AuthenticationError('UserInfo subject does not match');
+      }
+      claims = {...userInfo, ...claims};
+    }
+    return claims;
+  }
+
+  private async _discover(): Promise<ProviderMetadata> {
+    const res = await this._fetch(
+      `${this._issuer}/.well-known/openid-configuration`,
+      {headers: {Accept: 'application/json'}},
+    );
+    if (!res.ok) {
+      throw new Error(
+        `Failed to discover OpenID provider metadata (status ${res.status})`,
+      );
+    }
+
+    const metadata = (await res.json()) as ProviderMetadata;
+    if (metadata.issuer?.replace(/\/$/, '') !== this._issuer) {
+      throw new Error('OpenID provider metadata has an unexpected issuer');
+    }
+
+    this._discovery.keySet = new RemoteKeySet(metadata.jwks_uri, {
+      fetch: this._fetch,
+      cacheMaxAge: this._jwksCacheMaxAge,
+    });
+    return metadata;
+  }
+
+  private async _validateIdToken(
+    idToken: string,
+    state: AuthorizationState,
+  ): Promise<IdTokenClaims> {
+    const metadata = await this.metadata();
+    const jwt = decodeJwt<IdTokenClaims>(idToken);
+    const {alg} = jwt.header;
+
+    const algorithms = metadata.id_token_signing_alg_values_supported ?? [
+      'RS256',
+    ];
+    if (alg === 'none' || !algorithms.includes(alg)) {
+      throw new JwtError(`Unexpected algorithm "${alg}"`);
+    }
+
+    let key: CryptoKey;
+    if (alg.startsWith('HS')) {
+      if (!this._options.clientSecret) {
+        throw new JwtError('No client secret to verify signature');
+      }
+      key = await importSecret(this._options.clientSecret, alg);
+    } else {
+      key = await this._discovery.keySet!.getKey(jwt.header);
+    }
+    await verifySignature(jwt, key);
+
+    const claims = jwt.payload;
+    validateClaims(claims, {
+      issuer: metadata.issuer,
+      audience: this._options.clientID,
+      clockTolerance: this._clockTolerance,
+      requireExpiration: true,
+    });
+    if (typeof claims.sub !== 'string' || typeof claims.iat !== 'number') {
+      throw new JwtError('Missing required claims');
+    }
+    if (
+      Array.isArray(claims.aud) &&
+      claims.aud.length > 1 &&
+      claims.azp !== this._options.clientID
+    ) {
+      throw new JwtError('Unexpected authorized party');
+    }
+    if (!state.nonce || claims.nonce !== state.nonce) {
+      throw new JwtError('Nonce does not match');
+    }
+    return claims;
+  }
+}
@@ -1,7 +1,8 @@
 import {Strategy} from '../interfaces/strategy';
 import {DeserializeUser} from '../interfaces/user';
 import {SessionOptions} from '../interfaces/session';
-import {getSession} from '../utils/session';
+import {AuthenticateContext} from '../interfaces/context';
+import {DEFAULT_COOKIE_NAME, isExpired} from '../utils/session';
 import {NextResponse} from 'next/server';
 
 /**
@@ -20,40 +21,77 @@ import {NextResponse} from 'next/server';
  * signed cookie, and verifying the signature of that cookie on incoming
  * requests.
  *
- * Session support is provided by {@link https://github.com/vvo/iron-session `vvo/iron-session`}.
+ * Session support is provided by {@link https://github.com/vvo/iron-session `vvo/iron-session`},
+ * optionally with a `SessionStore` keeping the session on the server.
  */
 export class SessionStrategy<U, SU> extends Strategy<U> {
+  /**
+   * `revoked` is called with the serialized user once they are removed from
+   * the session, as they could no longer be deserialized.
+   */
   constructor(
     private _sessionOptions: SessionOptions,
     private _deserializeUser: DeserializeUser<U, SU>,
+    private _revoked?: (
+      user: SU,
+      context: AuthenticateContext,
+    ) => Promise<void>,
   ) {
     super('session');
   }
 
-  async getSession() {
-    return getSession<SU>(this._sessionOptions);
-  }
-
   /**
    * Authenticate request based on current session data.
    *
    * When login session data is present in the session, that data will be used to
    * restore login state across requests by calling the deserialize user
-   * function.
+   * function.  Requests that do not carry a session cookie are passed
+   * through without opening a session.  A session that has gone unused for
+   * longer than `idleTimeout`, or has lasted longer than `absoluteTimeout`,
+   * is destroyed, and impersonation that has expired is stopped.
    */
-  async authenticate(): Promise<NextResponse> {
-    const session = await this.getSession();
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const cookieName = this._sessionOptions.cookieName ?? DEFAULT_COOKIE_NAME;
+    if (!context.cookies.has(cookieName)) {
+      return this.pass();
+    }
+
+    const session = await context.sessionManager.getSession();
     const sessionUser = session.user;
 
     if (!sessionUser) {
       return this.pass();
     }
 
+    if (isExpired(session, this._sessionOptions)) {
+      await session.destroy();
+      return this.pass();
+    }
+
     try {
-      const user = await this._deserializeUser(sessionUser);
+      if (
+        session.impersonation &&
+        session.impersonation.expires <= Date.now()
+      ) {
+        await context.sessionManager.stopImpersonating();
+      }
+
+      const user = await this._deserializeUser(session.user!);
       if (!user) {
+        const revoked = session.user!;
         delete session.user;
         await session.save();
+        await this._revoked?.(revoked, context);
+      } else {
+        context.user = user;
+        context.authInfo = session.authInfo;
+        if (session.impersonation) {
+          context.impersonator =
+            (await this._deserializeUser(session.impersonation.impersonator)) ||
+            undefined;
+        }
+        // keep a session that is in use from expiring in the session store
+        await session.touch();
       }
       return this.pass();
     } catch (err) {
@@ -0,0 +1,171 @@
+import {Strategy} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {TotpOptions, verifyTotp} from '../utils/totp';
+import {NextResponse} from 'next/server';
+
+/**
+ * The time-based one-time password credential of a user.
+ */
+export interface TotpCredential {
+  /**
+   * The base32 secret shared with the user's authenticator app.
+   */
+  secret: string;
+
+  /**
+   * Time step of the code last accepted, as saved with `saveLastStep`.
+   */
+  lastStep?: number;
+}
+
+export interface TotpStrategyOptions<U> extends TotpOptions {
+  /**
+   * Save the time step of an accepted code as the user's `lastStep`, so that
+   * the code is refused if it is submitted again.
+   *
+   * The step must only be saved if the user's `lastStep` is still the
+   * `previousStep` read by `verify`, in a single conditional update, and the
+   * function resolves with whether it was.  Of two requests submitting the
+   * same code at once, only the one that saves its step is then accepted.
+   */
+  saveLastStep(
+    user: U,
+    step: number,
+    previousStep: number | undefined,
+    context: AuthenticateContext,
+  ): Promise<boolean>;
+
+  /**
+   * Name of the field containing the code, defaults to `'code'`.
+   */
+  codeField?: string;
+
+  /**
+   * Number of time steps before and after the current one whose codes are
+   * also accepted, allowing for clock drift, defaults to 1.
+   */
+  window?: number;
+
+  /**
+   * Challenge used when the code is missing, defaults to `'Missing code'`.
+   */
+  badRequestMessage?: string;
+
+  /**
+   * Challenge used when the code is wrong or was already used, defaults to
+   * `'Invalid code'`.
+   */
+  invalidCodeMessage?: string;
+}
+
+export interface TotpVerify<U> {
+  (
+    user: U,
+    context: AuthenticateContext,
+  ): Promise<TotpCredential | false | null | undefined>;
+}
+
+/**
+ * This `Strategy` authenticates users with a time-based one-time password
+ * (RFC 6238), as a second factor.
+ *
+ * The user is the one awaiting a second factor after logging in with a first,
+ * or else the logged in user, stepping up.  The `verify` function loads the
+ * user's credential, and the code read from the body of the request is
+ * checked against it.  A code is accepted once: the time step of each
+ * accepted code is saved with `saveLastStep`, only if no other code was
+ * accepted in the meantime, and codes of that step or an earlier one are
+ * refused.
+ *
+ * Failures carry a message as their challenge, so that they may be shown with
+ * `failureFlash`.
+ *
+ * @example
+ * passport.use(
+ *   new TotpStrategy(
+ *     {
+ *       saveLastStep: async (user, step, previousStep) => {
+ *         const {count} = await Totp.updateMany(
+ *           {userId: user.id, lastStep: previousStep ?? null},
+ *           {lastStep: step},
+ *         );
+ *         return count === 1;
+ *       },
+ *     },
+ *     async user => Totp.findOne({userId: user.id}),
+ *   ),
+ * );
+ */
+export class TotpStrategy<U> extends Strategy<U> {
+  private _options: TotpStrategyOptions<U>;
+  private _verify: TotpVerify<U>;
+
+  constructor(options: TotpStrategyOptions<U>, verify: TotpVerify<U>) {
+    super('totp');
+
+    if (!verify) {
+      throw new TypeError('TotpStrategy requires a verify function');
+    }
+    if (!options?.saveLastStep) {
+      throw new TypeError('TotpStrategy requires a saveLastStep function');
+    }
+
+    this._options = options;
+    this._verify = verify;
+  }
+
+  /**
+   * Authenticate request based on the code submitted in a form or JSON body.
+   *
+   * Requests that are missing the code fail with a `400` status, and those
+   * made with nobody awaiting a second factor or logged in fail with a
+   * `401` status.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    const body = await context.body();
+    const code = body[this._options.codeField ?? 'code'];
+    if (typeof code !== 'string' || !code) {
+      return this.fail(this._options.badRequestMessage ?? 'Missing code', 400);
+    }
+
+    let user: U | undefined;
+    try {
+      user = (await context.factorUser()) as U | undefined;
+    } catch (err) {
+      return this.error(err as Error);
+    }
+    if (!user) {
+      return this.fail('Log in before entering a code', 401);
+    }
+
+    let step: number | undefined;
+    try {
+      const credential = await this._verify(user, context);
+      if (credential) {
+        step = await verifyTotp(credential.secret, code.replace(/\s/g, ''), {
+          ...this._options,
+          lastStep: credential.lastStep,
+        });
+        // another request accepted a code since the credential was read
+        if (
+          step !== undefined &&
+          !(await this._options.saveLastStep(
+            user,
+            step,
+            credential.lastStep,
+            context,
+          ))
+        ) {
+          step = undefined;
+        }
+      }
+    } catch (err) {
+      return this.error(err as Error);
+    }
+
+    if (step === undefined) {
+      return this.fail(this._options.invalidCodeMessage ?? 'Invalid code');
+    }
+    return this.success(user, {});
+  }
+}
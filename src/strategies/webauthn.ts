@@ -0,0 +1,483 @@
+import {Strategy} from '../interfaces/strategy';
+import {AuthenticateContext} from '../interfaces/context';
+import {
+  CredentialRepository,
+  WebAuthnCredential,
+} from '../interfaces/credentialrepository';
+import {WebAuthnChallenge} from '../interfaces/session';
+import {WebAuthnError} from '../errors/webauthnerror';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  randomString,
+  sha256,
+  timingSafeEqual,
+} from '../utils/crypto';
+import {
+  AuthenticatorData,
+  COSE_ALGORITHMS,
+  decodeBase64UrlField,
+  importCoseKey,
+  parseAttestationObject,
+  parseAuthenticatorData,
+  parseClientData,
+  verifyAuthenticatorSignature,
+} from '../utils/webauthn';
+import {NextResponse} from 'next/server';
+
+/**
+ * The user account to which a credential is registered, as shown by the
+ * authenticator.
+ */
+export interface WebAuthnUserEntity {
+  /**
+   * Stable, opaque identifier of the user, which must not be personal
+   * information such as an email address.
+   */
+  id: string;
+  name: string;
+  displayName?: string;
+}
+
+export interface WebAuthnStrategyOptions<U> {
+  /**
+   * Name of the strategy, defaults to `'webauthn'`.
+   */
+  name?: string;
+
+  /**
+   * Name of the relying party, as shown by the authenticator.
+   */
+  rpName: string;
+
+  /**
+   * ID of the relying party, a domain to which credentials are scoped,
+   * defaults to the hostname of the request.
+   */
+  rpID?: string;
+
+  /**
+   * Origins from which responses are accepted, defaults to the origin of the
+   * request.
+   */
+  origin?: string | string[];
+
+  /**
+   * Repository in which the credentials of users are kept.
+   */
+  credentials: CredentialRepository<U>;
+
+  /**
+   * Describe the account of `user`, to which a credential is registered.
+   */
+  userEntity(user: U): WebAuthnUserEntity;
+
+  /**
+   * Whether the authenticator must verify the user, such as with a PIN or
+   * biometrics, defaults to `'preferred'`.  Responses without user
+   * verification are only refused when it is `'required'`.
+   */
+  userVerification?: UserVerificationRequirement;
+
+  /**
+   * Whether credentials are created as discoverable passkeys, which let
+   * users log in without entering a username, defaults to `'preferred'`.
+   */
+  residentKey?: ResidentKeyRequirement;
+
+  /**
+   * How long, in milliseconds, the user has to complete a ceremony, defaults
+   * to 5 minutes.
+   */
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * This `Strategy` authenticates users with WebAuthn credentials, such as
+ * passkeys.
+ *
+ * The strategy takes part in both ceremonies of WebAuthn, by the JSON body of
+ * the request:
+ *
+ *  - `{ceremony: 'registration'}` responds with the options with which the
+ *    browser creates a credential for the user who is logged in,
+ *  - `{ceremony: 'authentication'}`, or an empty body, responds with the
+ *    options with which the browser gets an assertion,
+ *  - a credential, as serialized by `PublicKeyCredential#toJSON()`, completes
+ *    the ceremony it was created for.
+ *
+ * The challenge of the ceremony in progress is kept in the session, and the
+ * options carry the session's `csrfToken`, which the request completing the
+ * ceremony sends in the `X-CSRF-Token` header.  A registered credential is
+ * saved to the `credentials` repository, and the response carries its `id`
+ * without logging anyone in: a user awaiting a second factor cannot register
+ * one, as it would then count as their second, and neither can an
+ * administrator impersonating a user.  An assertion logs in the user who
+ * registered the credential.
+ *
+ * Only credentials with ES256, EdDSA and RS256 keys are accepted.  Attestation
+ * is not requested, so attestation statements other than self attestation
+ * are refused rather than verified.
+ *
+ * @example
+ * passport.use(
+ *   new WebAuthnStrategy({
+ *     rpName: 'Example',
+ *     credentials: new PrismaCredentialRepository(),
+ *     userEntity: user => ({id: user.id, name: user.email}),
+ *   }),
+ * );
+ */
+export class WebAuthnStrategy<U> extends Strategy<U> {
+  private _options: WebAuthnStrategyOptions<U>;
+
+  constructor(options: WebAuthnStrategyOptions<U>) {
+    super(options.name ?? 'webauthn');
+
+    if (!options?.credentials) {
+      throw new TypeError('WebAuthnStrategy requires a credential repository');
+    }
+    this._options = options;
+  }
+
+  /**
+   * Authenticate request by the ceremony given in its body.
+   *
+   * Responses that fail verification fail with a `400` status, and those for
+   * unknown credentials with a `401` status.
+   */
+  async authenticate(context: AuthenticateContext): Promise<NextResponse> {
+    try {
+      const body = await context.body();
+      const response = body.response as Record<string, unknown> | undefined;
+
+      if (typeof response === 'object' && response !== null) {
+        return response.attestationObject !== undefined
+          ? await this._register(context, body, response)
+          : await this._assert(context, body, response);
+      }
+      if (body.ceremony === 'registration') {
+        return await this._registrationOptions(context);
+      }
+      return await this._authenticationOptions(context);
+    } catch (err) {
+      if (err instanceof WebAuthnError) {
+        return this.fail(err.message, 400);
+      }
+      return this.error(err as Error);
+    }
+  }
+
+  private async _registrationOptions(
+    context: AuthenticateContext,
+  ): Promise<NextResponse> {
+    const user = await this._loggedInUser(context);
+    if (!user) {
+      return this.fail('Log in before registering a credential', 401);
+    }
+
+    const entity = this._options.userEntity(user);
+    const {challenge, csrfToken} = await this._challenge(
+      context,
+      'registration',
+    );
+    const existing = await this._options.credentials.listByUser(user);
+    return NextResponse.json({
+      challenge,
+      csrfToken,
+      rp: {name: this._options.rpName, id: this._rpID(context)},
+      user: {
+        id: base64UrlEncode(new TextEncoder().encode(entity.id)),
+        name: entity.name,
+        displayName: entity.displayName ?? entity.name,
+      },
+      pubKeyCredParams: Object.keys(COSE_ALGORITHMS).map(alg => ({
+        type: 'public-key',
+        alg: Number(alg),
+      })),
+      timeout: this._options.timeout ?? DEFAULT_TIMEOUT,
+      attestation: 'none',
+      authenticatorSelection: {
+        residentKey: this._options.residentKey ?? 'preferred',
+        requireResidentKey: this._options.residentKey === 'required',
+        userVerification: this._options.userVerification ?? 'preferred',
+      },
+      excludeCredentials: existing.map(descriptor),
+    });
+  }
+
+  private async _authenticationOptions(
+    context: AuthenticateContext,
+  ): Promise<NextResponse> {
+    // users stepping up are asked for one of their own credentials, while
+    // anyone else may pick a discoverable one
+    const user = (await context.factorUser()) as U | undefined;
+    const allowed = user
+      ? await this._options.credentials.listByUser(user)
+      : [];
+    const {challenge, csrfToken} = await this._challenge(
+      context,
+      'authentication',
+    );
+    return NextResponse.json({
+      challenge,
+      csrfToken,
+      rpId: this._rpID(context),
+      timeout: this._options.timeout ?? DEFAULT_TIMEOUT,
+      userVerification: this._options.userVerification ?? 'preferred',
+      allowCredentials: allowed.map(descriptor),
+    });
+  }
+
+  private async _register(
+    context: AuthenticateContext,
+    body: Record<string, unknown>,
+    response: Record<string, unknown>,
+  ): Promise<NextResponse> {
+    const user = await this._loggedInUser(context);
+    if (!user) {
+      return this.fail('Log in before registering a credential', 401);
+    }
+
+    const clientDataJSON = decodeBase64UrlField(
+      response.clientDataJSON,
+      'client data',
+    );
+    await this._verifyClientData(
+      context,
+      clientDataJSON,
+      'registration',
+      'webauthn.create',
+    );
+
+    const {fmt, attStmt, authData} = parseAttestationObject(
+      decodeBase64UrlField(response.attestationObject, 'attestation object'),
+    );
+    const data = parseAuthenticatorData(authData);
+    await this._verifyAuthenticatorData(context, data);
+    const attested = data.attestedCredential;
+    if (!attested) {
+      throw new WebAuthnError('No credential was created');
+    }
+
+    const {key, alg} = await importCoseKey(attested.publicKey);
+    if (fmt === 'packed' && !attStmt.has('x5c')) {
+      // self attestation is signed with the credential itself
+      const sig = attStmt.get('sig');
+      if (
+        attStmt.get('alg') !== alg ||
+        !(sig instanceof Uint8Array) ||
+        !(await verifyAuthenticatorSignature(
+          key,
+          alg,
+          sig,
+          authData,
+          clientDataJSON,
+        ))
+      ) {
+        throw new WebAuthnError('Invalid attestation signature');
+      }
+    } else if (fmt !== 'none') {
+      throw new WebAuthnError(`Unsupported attestation format "${fmt}"`);
+    }
+
+    const id = base64UrlEncode(attested.id);
+    if (body.id !== id) {
+      throw new WebAuthnError('Credential ID does not match');
+    }
+    if (await this._options.credentials.find(id)) {
+      return this.fail('This credential is already registered', 403);
+    }
+
+    const transports = Array.isArray(response.transports)
+      ? response.transports.filter(
+          (transport): transport is string => typeof transport === 'string',
+        )
+      : undefined;
+    await this._options.credentials.create(user, {
+      id,
+      publicKey: base64UrlEncode(attested.publicKey),
+      algorithm: alg,
+      counter: data.signCount,
+      transports,
+    });
+    return NextResponse.json({id}, {status: 201});
+  }
+
+  private async _assert(
+    context: AuthenticateContext,
+    body: Record<string, unknown>,
+    response: Record<string, unknown>,
+  ): Promise<NextResponse> {
+    const clientDataJSON = decodeBase64UrlField(
+      response.clientDataJSON,
+      'client data',
+    );
+    await this._verifyClientData(
+      context,
+      clientDataJSON,
+      'authentication',
+      'webauthn.get',
+    );
+
+    if (typeof body.id !== 'string') {
+      throw new WebAuthnError('Missing credential ID');
+    }
+    const found = await this._options.credentials.find(body.id);
+    if (!found) {
+      return this.fail('Unknown credential', 401);
+    }
+    const {credential, user} = found;
+
+    const authData = decodeBase64UrlField(
+      response.authenticatorData,
+      'authenticator data',
+    );
+    const data = parseAuthenticatorData(authData);
+    await this._verifyAuthenticatorData(context, data);
+
+    if (response.userHandle) {
+      const userHandle = decodeBase64UrlField(
+        response.userHandle,
+        'user handle',
+      );
+      const expected = new TextEncoder().encode(
+        this._options.userEntity(user).id,
+      );
+      if (
+        !timingSafeEqual(base64UrlEncode(userHandle), base64UrlEncode(expected))
+      ) {
+        throw new WebAuthnError('User handle does not match the credential');
+      }
+    }
+
+    const {key} = await importCoseKey(base64UrlDecode(credential.publicKey));
+    const signature = decodeBase64UrlField(response.signature, 'signature');
+    if (
+      !(await verifyAuthenticatorSignature(
+        key,
+        credential.algorithm,
+        signature,
+        authData,
+        clientDataJSON,
+      ))
+    ) {
+      throw new WebAuthnError('Invalid signature');
+    }
+
+    // a counter that does not increase suggests the authenticator was cloned,
+    // while authenticators that keep no counter always report zero
+    if (
+      (data.signCount !== 0 || credential.counter !== 0) &&
+      data.signCount <= credential.counter
+    ) {
+      return this.fail('Signature counter did not increase', 401);
+    }
+    await this._options.credentials.updateCounter(
+      credential.id,
+      data.signCount,
+    );
+    return this.success(user, {});
+  }
+
+  /**
+   * Get the user who is logged in, to whom credentials are registered.
+   * Users awaiting a second factor are not, as they have yet to prove it, and
+   * neither are impersonated users, whose impersonator would keep a way in.
+   */
+  private async _loggedInUser(
+    context: AuthenticateContext,
+  ): Promise<U | undefined> {
+    const session = await context.sessionManager.getSession();
+    if (
+      session.user === undefined ||
+      session.pendingUser !== undefined ||
+      session.impersonation !== undefined
+    ) {
+      return undefined;
+    }
+    return (await context.factorUser()) as U | undefined;
+  }
+
+  /**
+   * Start a ceremony, keeping its challenge in the session, and resolve with
+   * the challenge and the CSRF token of the saved session.
+   */
+  private async _challenge(
+    context: AuthenticateContext,
+    ceremony: WebAuthnChallenge['ceremony'],
+  ): Promise<{challenge: string; csrfToken?: string}> {
+    const session = await context.sessionManager.getSession();
+    const challenge = randomString();
+    session.webAuthnChallenge = {
+      ceremony,
+      challenge,
+      expires: Date.now() + (this._options.timeout ?? DEFAULT_TIMEOUT),
+    };
+    await session.save();
+    return {challenge, csrfToken: session.csrfToken};
+  }
+
+  /**
+   * Check that the client data answers the challenge of the ceremony in
+   * progress, which is ended either way, from an allowed origin.
+   */
+  private async _verifyClientData(
+    context: AuthenticateContext,
+    clientDataJSON: Uint8Array,
+    ceremony: WebAuthnChallenge['ceremony'],
+    type: string,
+  ): Promise<void> {
+    const session = await context.sessionManager.getSession();
+    const pending = session.webAuthnChallenge;
+    delete session.webAuthnChallenge;
+    await session.save();
+
+    const clientData = parseClientData(clientDataJSON);
+    if (
+      !pending ||
+      pending.ceremony !== ceremony ||
+      pending.expires <= Date.now() ||
+      !timingSafeEqual(clientData.challenge, pending.challenge)
+    ) {
+      throw new WebAuthnError('Invalid or expired challenge');
+    }
+    if (clientData.type !== type) {
+      throw new WebAuthnError('Unexpected client data type');
+    }
+    const origins = [this._options.origin ?? context.url.origin].flat();
+    if (!origins.includes(clientData.origin)) {
+      throw new WebAuthnError('Unexpected origin');
+    }
+  }
+
+  private async _verifyAuthenticatorData(
+    context: AuthenticateContext,
+    data: AuthenticatorData,
+  ): Promise<void> {
+    const rpIdHash = base64UrlEncode(await sha256(this._rpID(context)));
+    if (!timingSafeEqual(base64UrlEncode(data.rpIdHash), rpIdHash)) {
+      throw new WebAuthnError('Unexpected relying party ID');
+    }
+    if (!data.userPresent) {
+      throw new WebAuthnError('User was not present');
+    }
+    if (this._options.userVerification === 'required' && !data.userVerified) {
+      throw new WebAuthnError('User was not verified');
+    }
+  }
+
+  private _rpID(context: AuthenticateContext): string {
+    return this._options.rpID ?? context.url.hostname;
+  }
+}
+
+function descriptor(credential: WebAuthnCredential) {
+  return {
+    type: 'public-key',
+    id: credential.id,
+    transports: credential.transports,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * A method with which a user can log in, such as a password or an account
+ * with a third-party provider.
+ */
+export interface LinkedAccount {
+  /**
+   * Name of the strategy with which the user logs in with the account, such
+   * as `'local'` or `'github'`.
+   */
+  provider: string;
+
+  /**
+   * Identifier of the account at the provider.
+   */
+  id: string;
+}
+
+/**
+ * Storage for the accounts linked to users.
+ */
+export interface AccountLinks<U> {
+  /**
+   * List every method with which `user` can log in, including those that are
+   * not linked accounts, such as a password or passkeys, so that the last
+   * one is never removed.
+   */
+  list(user: U): Promise<LinkedAccount[]>;
+
+  remove(user: U, account: LinkedAccount): Promise<void>;
+}
+
+/**
+ * Check whether `account` may be unlinked from a user with the given login
+ * methods, because it is linked and at least one other method remains.
+ */
+export function canUnlink(
+  accounts: LinkedAccount[],
+  account: LinkedAccount,
+): boolean {
+  const linked = accounts.some(candidate => isSameAccount(candidate, account));
+  return (
+    linked && accounts.some(candidate => !isSameAccount(candidate, account))
+  );
+}
+
+/**
+ * Unlink `account` from `user`, unless it is the last method with which they
+ * can log in.  Resolves with whether the account was unlinked.
+ *
+ * Examples:
+ *
+ *     async function unlink(formData: FormData) {
+ *       'use server';
+ *       const user = await passport.requireUser({redirectTo: '/login'});
+ *       const account = {provider: 'github', id: String(formData.get('id'))};
+ *       if (!(await unlinkAccount(accountLinks, user, account))) {
+ *         throw new Error('Add another way to log in first.');
+ *       }
+ *     }
+ */
+export async function unlinkAccount<U>(
+  links: AccountLinks<U>,
+  user: U,
+  account: LinkedAccount,
+): Promise<boolean> {
+  if (!canUnlink(await links.list(user), account)) {
+    return false;
+  }
+  await links.remove(user, account);
+  return true;
+}
+
+function isSameAccount(a: LinkedAccount, b: LinkedAccount): boolean {
+  return a.provider === b.provider && a.id === b.id;
+}
@@ -0,0 +1,87 @@
+import {AuthFactor} from '../interfaces/session';
+
+/**
+ * How strongly, and how recently, the user of a session must have
+ * authenticated.
+ */
+export interface AssuranceRequirement {
+  /**
+   * Number of distinct factors with which the user must have authenticated,
+   * such as 2 for a password and a one-time code.
+   */
+  level: number;
+
+  /**
+   * How long ago, in seconds, those factors may have been verified.  Older
+   * factors must be verified again.
+   */
+  maxAge?: number;
+}
+
+/**
+ * How the user of a session authenticated, like the `acr`, `amr` and
+ * `auth_time` claims of OpenID Connect.
+ */
+export interface Assurance {
+  /**
+   * Number of distinct factors with which the user authenticated.
+   */
+  level: number;
+
+  /**
+   * Methods with which the user authenticated, such as `['local', 'totp']`.
+   */
+  amr: string[];
+
+  /**
+   * Time at which a factor was last verified, in milliseconds since the
+   * epoch.
+   */
+  authTime?: number;
+}
+
+/**
+ * Record that `method` was verified at `now`, replacing any earlier
+ * verification of the same method.
+ */
+export function addFactor(
+  factors: AuthFactor[] | undefined,
+  method: string,
+  now = Date.now(),
+): AuthFactor[] {
+  return [
+    ...(factors ?? []).filter(factor => factor.method !== method),
+    {method, at: now},
+  ];
+}
+
+/**
+ * Describe the assurance given by `factors`, counting only those verified
+ * within `maxAge` seconds of `now`, when given.
+ */
+export function assuranceOf(
+  factors: AuthFactor[] | undefined,
+  maxAge?: number,
+  now = Date.now(),
+): Assurance {
+  const recent = (factors ?? []).filter(
+    factor => maxAge === undefined || factor.at >= now - maxAge * 1000,
+  );
+  const amr = [...new Set(recent.map(factor => factor.method))];
+  const times = recent.map(factor => factor.at);
+  return {
+    level: amr.length,
+    amr,
+    authTime: times.length ? Math.max(...times) : undefined,
+  };
+}
+
+export function meetsAssurance(
+  factors: AuthFactor[] | undefined,
+  requirement: AssuranceRequirement,
+  now = Date.now(),
+): boolean {
+  return (
+    assuranceOf(factors, requirement.maxAge, now).level >= requirement.level
+  );
+}
@@ -0,0 +1,132 @@
+import {NextResponse} from 'next/server';
+import type {NextRequest} from 'next/server';
+import {formatChallenge, parseAuthorization} from './challenge';
+
+/**
+ * What an authenticated user must have to be allowed access.
+ */
+export interface AuthorizationRequirements<U> {
+  /**
+   * Scopes that must all have been granted, read from the `scope` (a space
+   * delimited string or an array), `scopes` or `scp` of the transformed auth
+   * info.
+   */
+  scopes?: string[];
+
+  /**
+   * Roles of which the user must have at least one, read from the `roles`
+   * array or the `role` of the user.
+   */
+  roles?: string[];
+
+  /**
+   * Decide whether the user may access the resource, after any scopes and
+   * roles were checked.  The request is only given in middleware and route
+   * handlers.
+   */
+  predicate?(
+    user: U,
+    authInfo: any,
+    req?: NextRequest,
+  ): boolean | Promise<boolean>;
+}
+
+/**
+ * The outcome of checking a user against authorization requirements.
+ */
+export type AuthorizationResult =
+  | 'allowed'
+  | 'insufficient_scope'
+  | 'forbidden';
+
+export async function checkAuthorization<U>(
+  requirements: AuthorizationRequirements<U>,
+  user: U,
+  authInfo: any,
+  req?: NextRequest,
+): Promise<AuthorizationResult> {
+  if (requirements.scopes?.length) {
+    const granted = grantedScopes(authInfo);
+    if (!requirements.scopes.every(scope => granted.includes(scope))) {
+      return 'insufficient_scope';
+    }
+  }
+
+  if (requirements.roles?.length) {
+    const roles = userRoles(user);
+    if (!requirements.roles.some(role => roles.includes(role))) {
+      return 'forbidden';
+    }
+  }
+
+  if (
+    requirements.predicate &&
+    !(await requirements.predicate(user, authInfo, req))
+  ) {
+    return 'forbidden';
+  }
+  return 'allowed';
+}
+
+/**
+ * Reject a request that is not allowed with `403 Forbidden`.  Requests made
+ * with a bearer token that lacks a required scope are told which scopes are
+ * needed, as described by RFC 6750.
+ */
+export function forbiddenResponse(
+  req: NextRequest,
+  result: AuthorizationResult,
+  scopes?: string[],
+  realm = 'Users',
+): NextResponse {
+  const headers = new Headers();
+  if (
+    result === 'insufficient_scope' &&
+    parseAuthorization(req.headers.get('authorization'))?.scheme === 'bearer'
+  ) {
+    headers.set(
+      'WWW-Authenticate',
+      formatChallenge('Bearer', {
+        realm,
+        error: 'insufficient_scope',
+        scope: scopes?.join(' '),
+      }),
+    );
+  }
+  return new NextResponse(null, {status: 403, headers});
+}
+
+/**
+ * Respond to a request that failed to authenticate with the challenges and
+ * status of the strategies, given as arrays when several were tried.
+ */
+export function unauthorizedResponse(
+  challenges: string | string[] | undefined,
+  statuses: number | number[] | undefined,
+): NextResponse {
+  const status = [statuses].flat().find(status => status !== undefined) ?? 401;
+  const headers = new Headers();
+  if (status === 401) {
+    for (const challenge of [challenges].flat()) {
+      if (typeof challenge === 'string') {
+        headers.append('WWW-Authenticate', challenge);
+      }
+    }
+  }
+  return new NextResponse(null, {status, headers});
+}
+
+function grantedScopes(authInfo: any): string[] {
+  const scope = authInfo?.scope ?? authInfo?.scopes ?? authInfo?.scp;
+  if (typeof scope === 'string') {
+    return scope.split(' ').filter(Boolean);
+  }
+  return Array.isArray(scope) ? scope : [];
+}
+
+function userRoles(user: any): string[] {
+  if (Array.isArray(user?.roles)) {
+    return user.roles;
+  }
+  return typeof user?.role === 'string' ? [user.role] : [];
+}
@@ -0,0 +1,191 @@
+/**
+ * A minimal decoder for CBOR (RFC 8949), covering what WebAuthn attestation
+ * objects and COSE keys are made of.  Maps are decoded to `Map`s, as COSE
+ * keys are integers.
+ */
+
+const decoder = new TextDecoder('utf-8', {fatal: true});
+
+/**
+ * Decode the CBOR item at the start of `bytes`.  Resolves with the item and
+ * the number of bytes it took, as items such as the credential public key of
+ * authenticator data are followed by other data.
+ */
+export function decodeCborPrefix(bytes: Uint8Array): {
+  value: unknown;
+  length: number;
+} {
+  const reader = new Reader(bytes);
+  const value = reader.item(0);
+  return {value, length: reader.offset};
+}
+
+/**
+ * Decode `bytes`, which must hold a single CBOR item.
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const {value, length} = decodeCborPrefix(bytes);
+  if (length !== bytes.length) {
+    throw new TypeError('Unexpected data after CBOR item');
+  }
+  return value;
+}
+
+// nesting beyond this depth is not needed by WebAuthn, and is refused rather
+// than recursed into
+const MAX_DEPTH = 16;
+
+class Reader {
+  offset = 0;
+  private _view: DataView;
+
+  constructor(private _bytes: Uint8Array) {
+    this._view = new DataView(
+      _bytes.buffer,
+      _bytes.byteOffset,
+      _bytes.byteLength,
+    );
+  }
+
+  item(depth: number): unknown {
+    if (depth > MAX_DEPTH) {
+      throw new TypeError('CBOR item is nested too deeply');
+    }
+
+    const initial = this._uint(1);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this._simple(info);
+    }
+    if (info === 31) {
+      throw new TypeError('Indefinite length CBOR items are not supported');
+    }
+
+    const argument = this._argument(info);
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return this._take(argument).slice();
+      case 3:
+        return decoder.decode(this._take(argument));
+      case 4: {
+        const items: unknown[] = [];
+        for (let i = 0; i < argument; i++) {
+          items.push(this.item(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < argument; i++) {
+          const key = this.item(depth + 1);
+          map.set(key, this.item(depth + 1));
+        }
+        return map;
+      }
+      default:
+        // tags carry no meaning for WebAuthn, so only their content is kept
+        return this.item(depth + 1);
+    }
+  }
+
+  private _argument(info: number): number {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        return this._uint(1);
+      case 25:
+        return this._uint(2);
+      case 26:
+        return this._uint(4);
+      case 27: {
+        const high = this._uint(4);
+        const low = this._uint(4);
+        const value = high * 2 ** 32 + low;
+        if (!Number.isSafeInteger(value)) {
+          throw new TypeError('CBOR integer is too large');
+        }
+        return value;
+      }
+      default:
+        throw new TypeError('Malformed CBOR item');
+    }
+  }
+
+  private _simple(info: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return halfFloat(this._uint(2));
+      case 26:
+        return this._float(4);
+      case 27:
+        return this._float(8);
+      default:
+        throw new TypeError('Unsupported CBOR simple value');
+    }
+  }
+
+  private _uint(size: 1 | 2 | 4): number {
+    this._need(size);
+    const offset = this.offset;
+    this.offset += size;
+    switch (size) {
+      case 1:
+        return this._view.getUint8(offset);
+      case 2:
+        return this._view.getUint16(offset);
+      case 4:
+        return this._view.getUint32(offset);
+    }
+  }
+
+  private _float(size: 4 | 8): number {
+    this._need(size);
+    const offset = this.offset;
+    this.offset += size;
+    return size === 4
+      ? this._view.getFloat32(offset)
+      : this._view.getFloat64(offset);
+  }
+
+  private _take(length: number): Uint8Array {
+    this._need(length);
+    const bytes = this._bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private _need(length: number): void {
+    if (this.offset + length > this._bytes.length) {
+      throw new TypeError('Truncated CBOR item');
+    }
+  }
+}
+
+function halfFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  if (exponent === 0) {
+    return sign * fraction * 2 ** -24;
+  }
+  if (exponent === 31) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+}
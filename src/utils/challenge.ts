@@ -0,0 +1,39 @@
+/**
+ * Format a `WWW-Authenticate` challenge for the given `scheme`, with its
+ * `params` as quoted strings.  Params that are `undefined` are left out.
+ */
+export function formatChallenge(
+  scheme: string,
+  params: Record<string, string | undefined>,
+): string {
+  const pairs = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${value!.replace(/(["\\])/g, '\\$1')}"`);
+  return pairs.length ? `${scheme} ${pairs.join(', ')}` : scheme;
+}
+
+/**
+ * Extract a message from the `info` resolved by a verify function, which is
+ * either the info itself, when it is a string, or its `message` property.
+ */
+export function messageFromInfo(info?: Object): string | undefined {
+  if (typeof info === 'string') {
+    return info;
+  }
+  const message = (info as {message?: unknown} | undefined)?.message;
+  return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * Split an `Authorization` header into its scheme and credentials.  The scheme
+ * is lower-cased, since it is matched case-insensitively.
+ */
+export function parseAuthorization(
+  header: string | null,
+): {scheme: string; credentials: string} | undefined {
+  const match = header?.match(/^\s*([^\s]+)\s+(.*?)\s*$/);
+  if (!match) {
+    return undefined;
+  }
+  return {scheme: match[1].toLowerCase(), credentials: match[2]};
+}
@@ -0,0 +1,64 @@
+import type {NextRequest} from 'next/server';
+import {AuthenticateContext, RequestBody} from '../interfaces/context';
+import {SessionManager} from '../sessionmanager';
+
+export function createContext(
+  req: NextRequest,
+  sessionManager: SessionManager<any, any>,
+  deserializeUser?: (user: unknown) => Promise<unknown>,
+): AuthenticateContext {
+  let body: Promise<RequestBody> | undefined;
+  let factorUser: Promise<unknown> | undefined;
+
+  return {
+    request: req,
+    url: req.nextUrl,
+    cookies: req.cookies,
+    sessionManager,
+    body() {
+      body ??= parseBody(req).catch(() => ({}));
+      return body;
+    },
+    factorUser() {
+      factorUser ??= sessionManager.getFactorUser().then(async user => {
+        if (user === undefined || !deserializeUser) {
+          return undefined;
+        }
+        return (await deserializeUser(user)) || undefined;
+      });
+      return factorUser;
+    },
+  };
+}
+
+async function parseBody(req: NextRequest): Promise<RequestBody> {
+  if (req.method === 'GET' || req.method === 'HEAD' || !req.body) {
+    return {};
+  }
+
+  const contentType = req.headers.get('content-type') ?? '';
+  // the body is read from a clone, so that it remains available to the route
+  const request = req.clone();
+
+  if (/^application\/(.+\+)?json/i.test(contentType)) {
+    const json = await request.json();
+    return typeof json === 'object' && json !== null && !Array.isArray(json)
+      ? json
+      : {};
+  }
+
+  if (
+    /^application\/x-www-form-urlencoded/i.test(contentType) ||
+    /^multipart\/form-data/i.test(contentType)
+  ) {
+    const form = await request.formData();
+    const fields: RequestBody = {};
+    for (const key of new Set(form.keys())) {
+      const values = form.getAll(key);
+      fields[key] = values.length === 1 ? values[0] : values;
+    }
+    return fields;
+  }
+
+  return {};
+}
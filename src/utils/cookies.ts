@@ -0,0 +1,83 @@
+import {NextResponse} from 'next/server';
+import type {NextRequest} from 'next/server';
+import {ResponseCookies} from '@edge-runtime/cookies';
+
+type ResponseCookie = NonNullable<ReturnType<ResponseCookies['get']>>;
+
+/**
+ * The cookie interface used by `iron-session`, which is implemented both by
+ * `cookies()` from `next/headers` and by {@link CookieJar}.
+ */
+export interface CookieStore {
+  get(name: string): {name: string; value: string} | undefined;
+  set(
+    ...args:
+      | [name: string, value: string, cookie?: Partial<ResponseCookie>]
+      | [options: ResponseCookie]
+  ): unknown;
+}
+
+/**
+ * A cookie store bound to a request and its eventual response.
+ *
+ * Cookies are read from the request, while cookies that are set are kept
+ * until they are applied to the response, and take precedence over those of
+ * the request in the meantime.  Unlike `cookies()` from `next/headers`, this
+ * works the same in middleware, route handlers and the Edge runtime.
+ */
+export class CookieJar implements CookieStore {
+  private _pending = new Map<string, ResponseCookie>();
+
+  constructor(private _request: NextRequest['cookies']) {}
+
+  get(name: string): {name: string; value: string} | undefined {
+    const cookie = this._pending.get(name) ?? this._request.get(name);
+    return cookie && {name, value: cookie.value};
+  }
+
+  set(
+    ...args:
+      | [name: string, value: string, cookie?: Partial<ResponseCookie>]
+      | [options: ResponseCookie]
+  ): this {
+    const cookie =
+      typeof args[0] === 'string'
+        ? {...args[2], name: args[0], value: args[1] as string}
+        : args[0];
+    this._pending.set(cookie.name, cookie);
+    return this;
+  }
+
+  /**
+   * Write the cookies that were set onto `response`.
+   *
+   * A response with immutable headers, such as one created with
+   * `Response.redirect()`, is copied so that its cookies can be set.
+   */
+  applyTo<R extends Response>(response: R): R | Response {
+    if (!this._pending.size) {
+      return response;
+    }
+
+    let res: Response = response;
+    try {
+      this._write(res);
+    } catch {
+      res = new Response(response.body, response);
+      this._write(res);
+    }
+    return res;
+  }
+
+  private _write(res: Response) {
+    // a `NextResponse` keeps its own view of its cookies, which must be used
+    // so that cookies set on it later do not overwrite these
+    const cookies =
+      res instanceof NextResponse
+        ? res.cookies
+        : new ResponseCookies(res.headers);
+    for (const cookie of this._pending.values()) {
+      cookies.set(cookie);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import {AuthenticateContext} from '../interfaces/context';
+import {timingSafeEqual} from './crypto';
+
+/**
+ * Name of the form field in which the CSRF token is submitted.
+ */
+export const CSRF_FIELD = '_csrf';
+
+/**
+ * Name of the header in which the CSRF token is sent, such as by `fetch()`.
+ */
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Check that a state-changing request was made by the application itself.
+ *
+ * Every saved session carries a token, which such requests must submit in
+ * the `_csrf` field or the `X-CSRF-Token` header.  Before a session exists,
+ * such as on a first visit to the login page, there is no token to submit,
+ * and a request is instead rejected if its `Origin` header names another
+ * site.
+ */
+export async function verifyCsrf(
+  context: AuthenticateContext,
+): Promise<boolean> {
+  if (SAFE_METHODS.includes(context.request.method)) {
+    return true;
+  }
+
+  const session = await context.sessionManager.getSession();
+  const expected = session.csrfToken;
+  if (!expected) {
+    const origin = context.request.headers.get('origin');
+    return !origin || origin === context.url.origin;
+  }
+
+  const token =
+    context.request.headers.get(CSRF_HEADER) ??
+    (await context.body())[CSRF_FIELD];
+  return typeof token === 'string' && timingSafeEqual(token, expected);
+}
@@ -0,0 +1,42 @@
+import type {NextRequest} from 'next/server';
+import {RequestMetadata} from '../interfaces/events';
+
+/**
+ * Describe a request, or the request of a server action from its `headers`.
+ */
+export function requestMetadata(req: NextRequest | Headers): RequestMetadata {
+  const headers = req instanceof Headers ? req : req.headers;
+  const metadata: RequestMetadata = {
+    userAgent: headers.get('user-agent') ?? undefined,
+  };
+  if (!(req instanceof Headers)) {
+    metadata.ip = clientIp(req);
+    metadata.method = req.method;
+    metadata.url = req.nextUrl.href;
+  }
+  return metadata;
+}
+
+/**
+ * Get the address of the client of `req`, as set by the platform.
+ *
+ * Behind `trustProxy` proxies, each of which appends the address it was
+ * connected from to `X-Forwarded-For`, the entry appended by the outermost
+ * one is used instead.  The entries before it are whatever the client sent,
+ * so they are never trusted.
+ */
+export function clientIp(req: NextRequest, trustProxy = 0): string | undefined {
+  if (trustProxy > 0) {
+    const hops =
+      req.headers
+        .get('x-forwarded-for')
+        ?.split(',')
+        .map(hop => hop.trim())
+        .filter(Boolean) ?? [];
+    const hop = hops[hops.length - trustProxy];
+    if (hop) {
+      return hop;
+    }
+  }
+  return req.ip;
+}
@@ -0,0 +1,130 @@
+import {JwtError} from '../errors/jwterror';
+import {JwtHeader, importJwk} from './jwt';
+
+export interface RemoteKeySetOptions {
+  /**
+   * The `fetch` implementation used to load the key set.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * How long, in seconds, a loaded key set is used before it is reloaded,
+   * defaults to 600.
+   */
+  cacheMaxAge?: number;
+
+  /**
+   * Minimum time, in seconds, between reloads triggered by a token signed
+   * with an unknown key, defaults to 30, and at most `cacheMaxAge`.
+   */
+  cooldown?: number;
+}
+
+interface JsonWebKeyWithId extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+/**
+ * A JSON Web Key Set loaded from a URL, as published by identity providers.
+ *
+ * The key set is cached, and is reloaded when it becomes stale or when a
+ * token is signed with a key that is not in the set, which happens when the
+ * provider rotates its keys.
+ */
+export class RemoteKeySet {
+  private _fetch: typeof fetch;
+  private _cacheMaxAge: number;
+  private _cooldown: number;
+  private _keys?: Promise<JsonWebKeyWithId[]>;
+  private _loadedAt = 0;
+  private _imported = new Map<string, Promise<CryptoKey>>();
+
+  constructor(
+    private _url: string,
+    options: RemoteKeySetOptions = {},
+  ) {
+    this._fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this._cacheMaxAge = (options.cacheMaxAge ?? 600) * 1000;
+    this._cooldown = Math.min(
+      (options.cooldown ?? 30) * 1000,
+      this._cacheMaxAge,
+    );
+  }
+
+  /**
+   * Find the key that verifies a token with the given `header`.
+   */
+  async getKey(header: JwtHeader): Promise<CryptoKey> {
+    if (this._keys && Date.now() - this._loadedAt >= this._cacheMaxAge) {
+      this._reload();
+    }
+    let jwk = await this._find(header);
+    // an unknown key may have been rotated in since the set was loaded
+    if (!jwk && Date.now() - this._loadedAt >= this._cooldown) {
+      this._reload();
+      jwk = await this._find(header);
+    }
+    if (!jwk) {
+      throw new JwtError('No matching key found');
+    }
+
+    const id = JSON.stringify([header.alg, jwk]);
+    let key = this._imported.get(id);
+    if (!key) {
+      key = importJwk(jwk, header.alg);
+      this._imported.set(id, key);
+    }
+    return key;
+  }
+
+  private async _find(
+    header: JwtHeader,
+  ): Promise<JsonWebKeyWithId | undefined> {
+    this._keys ?? this._reload();
+    const keys = await this._keys!;
+    const candidates = keys.filter(
+      jwk =>
+        (header.kid === undefined || jwk.kid === header.kid) &&
+        (jwk.alg === undefined || jwk.alg === header.alg) &&
+        (jwk.use === undefined || jwk.use === 'sig') &&
+        jwk.kty === keyType(header.alg),
+    );
+    // without a key ID, the key can only be chosen when there is no ambiguity
+    return candidates.length === 1 || header.kid !== undefined
+      ? candidates[0]
+      : undefined;
+  }
+
+  private _reload() {
+    this._loadedAt = Date.now();
+    this._imported.clear();
+    const keys = this._fetch(this._url, {
+      headers: {Accept: 'application/json'},
+    }).then(async res => {
+      const body = await res.json().catch(() => undefined);
+      if (!res.ok || !Array.isArray(body?.keys)) {
+        throw new Error(`Failed to load key set (status ${res.status})`);
+      }
+      return body.keys as JsonWebKeyWithId[];
+    });
+    this._keys = keys;
+    // a failed load is retried on the next use
+    keys.catch(() => {
+      if (this._keys === keys) {
+        this._keys = undefined;
+        this._loadedAt = 0;
+      }
+    });
+  }
+}
+
+function keyType(alg: string): string {
+  if (alg.startsWith('RS') || alg.startsWith('PS')) {
+    return 'RSA';
+  }
+  if (alg.startsWith('ES')) {
+    return 'EC';
+  }
+  return alg === 'EdDSA' ? 'OKP' : 'oct';
+}
@@ -0,0 +1,277 @@
+import {JwtError} from '../errors/jwterror';
+import {base64UrlDecode} from './crypto';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [param: string]: unknown;
+}
+
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface DecodedJwt<P extends JwtPayload = JwtPayload> {
+  header: JwtHeader;
+  payload: P;
+  signature: Uint8Array;
+  signingInput: Uint8Array;
+}
+
+export interface ClaimsValidationOptions {
+  /**
+   * Accepted values of the `iss` claim.
+   */
+  issuer?: string | string[];
+
+  /**
+   * Accepted values of the `aud` claim.  The token is accepted if any of its
+   * audiences is accepted.
+   */
+  audience?: string | string[];
+
+  /**
+   * Leeway, in seconds, allowed when checking `exp`, `nbf` and `iat`,
+   * defaults to 0.
+   */
+  clockTolerance?: number;
+
+  /**
+   * Require the `exp` claim to be present, defaults to false.
+   */
+  requireExpiration?: boolean;
+
+  /**
+   * The current time, in seconds since the epoch.
+   */
+  now?: number;
+}
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+/**
+ * Decode a JWT in compact serialization, without verifying it.
+ */
+export function decodeJwt<P extends JwtPayload = JwtPayload>(
+  token: string,
+): DecodedJwt<P> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Malformed token');
+  }
+
+  try {
+    const header = JSON.parse(decoder.decode(base64UrlDecode(parts[0])));
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(parts[1])));
+    if (
+      typeof header?.alg !== 'string' ||
+      typeof payload !== 'object' ||
+      payload === null
+    ) {
+      throw new Error();
+    }
+    return {
+      header,
+      payload,
+      signature: base64UrlDecode(parts[2]),
+      signingInput: encoder.encode(`${parts[0]}.${parts[1]}`),
+    };
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+}
+
+interface AlgorithmParams {
+  importParams: RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+  verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+function algorithmParams(alg: string): AlgorithmParams {
+  const hash = `SHA-${alg.slice(2)}`;
+  switch (alg) {
+    case 'HS256':
+    case 'HS384':
+    case 'HS512':
+      return {importParams: {name: 'HMAC', hash}, verifyParams: 'HMAC'};
+    case 'RS256':
+    case 'RS384':
+    case 'RS512':
+      return {
+        importParams: {name: 'RSASSA-PKCS1-v1_5', hash},
+        verifyParams: 'RSASSA-PKCS1-v1_5',
+      };
+    case 'PS256':
+    case 'PS384':
+    case 'PS512':
+      return {
+        importParams: {name: 'RSA-PSS', hash},
+        verifyParams: {name: 'RSA-PSS', saltLength: Number(alg.slice(2)) / 8},
+      };
+    case 'ES256':
+    case 'ES384':
+    case 'ES512':
+      return {
+        importParams: {
+          name: 'ECDSA',
+          namedCurve: alg === 'ES512' ? 'P-521' : `P-${alg.slice(2)}`,
+        },
+        verifyParams: {name: 'ECDSA', hash},
+      };
+    case 'EdDSA':
+      return {
+        importParams: {name: 'Ed25519'} as EcKeyImportParams,
+        verifyParams: 'Ed25519',
+      };
+    default:
+      throw new JwtError(`Unsupported algorithm "${alg}"`);
+  }
+}
+
+/**
+ * Import a public JWK, or a symmetric (`oct`) JWK, for verifying signatures
+ * made with `alg`.
+ */
+export async function importJwk(
+  jwk: JsonWebKey,
+  alg: string,
+): Promise<CryptoKey> {
+  const {importParams} = algorithmParams(alg);
+  // only the public members of the key are needed to verify signatures
+  const {d, p, q, dp, dq, qi, key_ops, ...key} = jwk;
+  return crypto.subtle.importKey(
+    'jwk',
+    jwk.kty === 'oct' ? jwk : key,
+    importParams,
+    false,
+    ['verify'],
+  );
+}
+
+/**
+ * Import a PEM encoded public key (`-----BEGIN PUBLIC KEY-----`) for verifying
+ * signatures made with `alg`.
+ */
+export async function importPem(pem: string, alg: string): Promise<CryptoKey> {
+  const {importParams} = algorithmParams(alg);
+  const body = pem
+    .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+    .replace(/\s+/g, '');
+  return crypto.subtle.importKey(
+    'spki',
+    Uint8Array.from(atob(body), c => c.charCodeAt(0)),
+    importParams,
+    false,
+    ['verify'],
+  );
+}
+
+/**
+ * Import an HMAC secret for verifying signatures made with `alg`.
+ */
+export async function importSecret(
+  secret: string | Uint8Array,
+  alg: string,
+): Promise<CryptoKey> {
+  const {importParams} = algorithmParams(alg);
+  if (importParams.name !== 'HMAC') {
+    throw new JwtError(`Algorithm "${alg}" does not use a shared secret`);
+  }
+  const bytes = typeof secret === 'string' ? encoder.encode(secret) : secret;
+  return crypto.subtle.importKey('raw', bytes, importParams, false, ['verify']);
+}
+
+/**
+ * Verify the signature of a decoded JWT with `key`.
+ */
+export async function verifySignature(
+  jwt: DecodedJwt,
+  key: CryptoKey,
+): Promise<void> {
+  const valid = await verifyWithAlgorithm(
+    jwt.header.alg,
+    key,
+    jwt.signature,
+    jwt.signingInput,
+  );
+  if (!valid) {
+    throw new JwtError('Invalid signature');
+  }
+}
+
+/**
+ * Check a signature made with `alg` over `data`.  ECDSA signatures are given
+ * as the concatenated `r` and `s` values, as in JWTs.
+ */
+export async function verifyWithAlgorithm(
+  alg: string,
+  key: CryptoKey,
+  signature: Uint8Array,
+  data: Uint8Array,
+): Promise<boolean> {
+  const {verifyParams} = algorithmParams(alg);
+  return crypto.subtle.verify(verifyParams, key, signature, data);
+}
+
+/**
+ * Validate the registered claims of a JWT payload.
+ */
+export function validateClaims(
+  payload: JwtPayload,
+  options: ClaimsValidationOptions = {},
+): void {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 0;
+
+  if (options.issuer !== undefined) {
+    const issuers = toArray(options.issuer);
+    if (!payload.iss || !issuers.includes(payload.iss)) {
+      throw new JwtError('Unexpected issuer');
+    }
+  }
+
+  if (options.audience !== undefined) {
+    const accepted = toArray(options.audience);
+    const audiences = payload.aud === undefined ? [] : toArray(payload.aud);
+    if (!audiences.some(aud => accepted.includes(aud))) {
+      throw new JwtError('Unexpected audience');
+    }
+  }
+
+  if (payload.exp === undefined) {
+    if (options.requireExpiration) {
+      throw new JwtError('Token has no expiration');
+    }
+  } else if (
+    typeof payload.exp !== 'number' ||
+    payload.exp + tolerance <= now
+  ) {
+    throw new JwtError('Token has expired');
+  }
+
+  if (
+    payload.nbf !== undefined &&
+    (typeof payload.nbf !== 'number' || payload.nbf - tolerance > now)
+  ) {
+    throw new JwtError('Token is not yet valid');
+  }
+
+  if (
+    payload.iat !== undefined &&
+    (typeof payload.iat !== 'number' || payload.iat - tolerance > now)
+  ) {
+    throw new JwtError('Token was issued in the future');
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,100 @@
+/**
+ * A pattern matched against the pathname of a request.  Strings are globs or
+ * Next.js route and matcher paths:
+ *
+ *  - `*` matches within a segment, `**` any number of segments,
+ *  - `[id]` and `:id` match one segment,
+ *  - `[...slug]` and `:slug+` match one or more segments,
+ *  - `[[...slug]]` and `:slug*` match zero or more segments,
+ *  - `:id?` matches an optional segment,
+ *  - `(...)` is a regular expression, as in `config.matcher`.
+ */
+export type PathPattern = string | RegExp;
+
+const SEGMENT = '/[^/]+';
+
+/**
+ * Compile a path pattern to a regular expression matching whole pathnames.
+ */
+export function compilePathPattern(pattern: PathPattern): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+
+  let source = '';
+  for (const segment of splitSegments(pattern)) {
+    source += compileSegment(segment);
+  }
+  return new RegExp(`^${source || '/'}/?$`);
+}
+
+/**
+ * Check whether `pathname` matches any of `patterns`.
+ */
+export function matchesPath(pathname: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(pathname));
+}
+
+function compileSegment(segment: string): string {
+  if (segment === '**' || /^\[\[\.\.\.\w+\]\]$/.test(segment)) {
+    return `(?:${SEGMENT})*`;
+  }
+  if (/^\[\.\.\.\w+\]$/.test(segment)) {
+    return `(?:${SEGMENT})+`;
+  }
+  if (/^\[\w+\]$/.test(segment)) {
+    return SEGMENT;
+  }
+
+  const param = /^:\w+([*+?]?)$/.exec(segment);
+  if (param) {
+    return param[1] ? `(?:${SEGMENT})${param[1]}` : SEGMENT;
+  }
+
+  // literal text, with `*` wildcards and parenthesized regular expressions
+  let source = '/';
+  let depth = 0;
+  for (const char of segment) {
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+    if (depth > 0 || char === ')') {
+      source += char;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else {
+      source += char.replace(/[.+?^${}|[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Split a pattern on the slashes that are not within parentheses.
+ */
+function splitSegments(pattern: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of pattern) {
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+    if (char === '/' && depth === 0) {
+      if (current) {
+        segments.push(current);
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) {
+    segments.push(current);
+  }
+  return segments;
+}
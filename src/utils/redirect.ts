@@ -0,0 +1,42 @@
+import type {NextRequest} from 'next/server';
+
+// relative URLs are first resolved against an origin that cannot be that of
+// a request, to tell them apart from absolute and protocol-relative URLs
+// however the URL parser reads them
+const PLACEHOLDER_ORIGIN = 'http://redirect.invalid';
+
+/**
+ * Resolve a redirect URL against the request, as `NextResponse.redirect()`
+ * only accepts absolute URLs.
+ *
+ * A relative URL is resolved against the path of the request, and keeps its
+ * `basePath` and locale, so that `/login` redirects to `/docs/fr/login` from
+ * `/docs/fr/account`.
+ */
+export function resolveRedirect(url: string, req: NextRequest): URL {
+  const parsed = new URL(url, PLACEHOLDER_ORIGIN + req.nextUrl.pathname);
+  if (parsed.origin !== PLACEHOLDER_ORIGIN) {
+    return parsed;
+  }
+
+  const target = req.nextUrl.clone();
+  target.pathname = parsed.pathname;
+  target.search = parsed.search;
+  target.hash = parsed.hash;
+  return new URL(target.href);
+}
+
+/**
+ * Check that `url` may be redirected to, because it has the same origin as
+ * the request, or one of the allowed origins.
+ */
+export function isAllowedRedirect(
+  url: URL,
+  req: NextRequest,
+  allowedOrigins: string[] = [],
+): boolean {
+  return (
+    (url.protocol === 'http:' || url.protocol === 'https:') &&
+    (url.origin === req.nextUrl.origin || allowedOrigins.includes(url.origin))
+  );
+}
@@ -0,0 +1,56 @@
+import {headers} from 'next/headers';
+
+type RequestCache = Map<string, Promise<unknown>>;
+
+// `headers()` returns the same object for the whole of a request, across
+// every Server Component and server action rendered for it, so it identifies
+// the request without keeping it alive
+const caches = new WeakMap<object, WeakMap<object, RequestCache>>();
+
+/**
+ * Resolve `key` once per request for `owner`, sharing the pending promise
+ * with every later call made while handling the same request.  A rejected
+ * promise is not cached, so that the next call tries again.
+ */
+export function cachedForRequest<T>(
+  owner: object,
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  const cache = requestCache(owner);
+  let value = cache.get(key) as Promise<T> | undefined;
+  if (!value) {
+    const loaded = load();
+    cache.set(key, loaded);
+    loaded.catch(() => {
+      if (cache.get(key) === loaded) {
+        cache.delete(key);
+      }
+    });
+    value = loaded;
+  }
+  return value;
+}
+
+/**
+ * Replace the cached value of `key` for the current request, such as after
+ * the user logs in or out during a server action.
+ */
+export function setForRequest<T>(owner: object, key: string, value: T): void {
+  requestCache(owner).set(key, Promise.resolve(value));
+}
+
+function requestCache(owner: object): RequestCache {
+  const request = headers();
+  let owners = caches.get(request);
+  if (!owners) {
+    owners = new WeakMap();
+    caches.set(request, owners);
+  }
+  let cache = owners.get(owner);
+  if (!cache) {
+    cache = new Map();
+    owners.set(owner, cache);
+  }
+  return cache;
+}
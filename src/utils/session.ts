@@ -1,14 +1,277 @@
 import {cookies} from 'next/headers';
-import {SessionData, SessionOptions} from '../interfaces/session';
-import {IronSession, getIronSession} from 'iron-session';
+import {Session, SessionData, SessionOptions} from '../interfaces/session';
+import {StoredSession} from '../interfaces/sessionstore';
+import {getIronSession} from 'iron-session';
+import {CookieStore} from './cookies';
+import {randomString} from './crypto';
 
 export const DEFAULT_COOKIE_NAME = 'session';
 
+/**
+ * How long, in seconds, a session lasts since it was last saved, the default
+ * of `iron-session`.
+ */
+export const DEFAULT_TTL = 14 * 24 * 3600;
+
+/**
+ * Open the session stored in `store`, which defaults to the cookies of the
+ * current request as provided by `next/headers`.  That default can only be
+ * written to from route handlers and server actions.
+ *
+ * With a session store, the cookie only carries the identifier of the
+ * session, and its data is kept in the store.
+ */
 export async function getSession<SU>(
   options: SessionOptions,
-): Promise<IronSession<SessionData<SU>>> {
-  return getIronSession(cookies(), {
-    password: options.secret,
-    cookieName: options.cookieName ?? DEFAULT_COOKIE_NAME,
+  store: CookieStore = cookies(),
+): Promise<Session<SU>> {
+  const cookieName = options.cookieName ?? DEFAULT_COOKIE_NAME;
+  const secrets = normalizeSecret(options.secret);
+  const cookie = await getIronSession<SessionData<SU> & {id?: string}>(store, {
+    password: secrets,
+    cookieName,
+    ttl: options.ttl ?? DEFAULT_TTL,
+    cookieOptions: options.cookie,
+  });
+
+  if (!options.store) {
+    const {id, ...data} = cookie;
+    return createSession<SU>(data, options, {
+      async save(data) {
+        replace(cookie, data);
+        await cookie.save();
+      },
+      async destroy() {
+        cookie.destroy();
+      },
+      async extend() {},
+      async discard() {},
+    });
+  }
+
+  const sessionStore = options.store;
+  const stored = cookie.id ? await sessionStore.get(cookie.id) : undefined;
+  // an identifier that is not in the store, because the session expired or
+  // was revoked, is never reused
+  let id = stored?.id;
+  const version = currentSecretVersion(secrets);
+  let sealedWith = stored && sealVersion(store.get(cookieName)?.value);
+
+  return createSession<SU>((stored?.data ?? {}) as SessionData<SU>, options, {
+    id: () => id,
+    async save(data) {
+      // the cookie is sealed again when it was sealed with a retired secret
+      if (!id || sealedWith !== version) {
+        id ??= randomString();
+        replace(cookie, {id});
+        await cookie.save();
+        sealedWith = version;
+      }
+      await sessionStore.set({
+        id,
+        data,
+        user: data.user === undefined ? undefined : userKey(data.user),
+        expires: expiry(options, data),
+        secretVersion: version,
+      });
+    },
+    async destroy() {
+      await this.discard();
+      cookie.destroy();
+    },
+    async extend(data) {
+      if (id) {
+        await sessionStore.touch(id, expiry(options, data));
+      }
+    },
+    async discard() {
+      if (id) {
+        await sessionStore.destroy(id);
+        id = undefined;
+      }
+    },
   });
 }
+
+/**
+ * Session secrets by version, as expected by `iron-session`.
+ */
+export function normalizeSecret(
+  secret: SessionOptions['secret'],
+): Record<string, string> {
+  if (typeof secret === 'string') {
+    return {1: secret};
+  }
+  const secrets: Record<string, string> = {};
+  for (const [version, value] of Object.entries(secret)) {
+    secrets[version] = value;
+  }
+  if (!Object.keys(secrets).length) {
+    throw new TypeError('At least one session secret is required');
+  }
+  return secrets;
+}
+
+/**
+ * The version of the secret with which new sessions are sealed, which is the
+ * highest.
+ */
+export function currentSecretVersion(secrets: Record<string, string>): string {
+  return String(Math.max(...Object.keys(secrets).map(Number)));
+}
+
+/**
+ * The version of the secret with which a cookie was sealed, found in the
+ * `Fe26.2*<version>*...` header of the seal.
+ */
+function sealVersion(seal?: string): string | undefined {
+  return seal?.split('*')[1] || undefined;
+}
+
+/**
+ * Check whether a session has gone unused for longer than the idle timeout,
+ * or has lasted longer than the absolute timeout.
+ */
+export function isExpired(
+  session: SessionData<unknown>,
+  options: SessionOptions,
+  now: number = Date.now(),
+): boolean {
+  const {idleTimeout, absoluteTimeout} = options;
+  return (
+    (!!idleTimeout &&
+      session.lastActiveAt !== undefined &&
+      session.lastActiveAt + idleTimeout * 1000 <= now) ||
+    (!!absoluteTimeout &&
+      session.createdAt !== undefined &&
+      session.createdAt + absoluteTimeout * 1000 <= now)
+  );
+}
+
+/**
+ * The login in effect for a session: its user and auth info, along with the
+ * user impersonating them.  Once impersonation has expired, the impersonator
+ * is in effect again, even before the session is saved.
+ */
+export function effectiveLogin<SU>(
+  session: SessionData<SU>,
+  now: number = Date.now(),
+): {user?: SU; authInfo?: Object; impersonator?: SU} {
+  const impersonation = session.impersonation;
+  if (!impersonation) {
+    return {user: session.user, authInfo: session.authInfo};
+  }
+  if (impersonation.expires <= now) {
+    return {user: impersonation.impersonator, authInfo: impersonation.authInfo};
+  }
+  return {
+    user: session.user,
+    authInfo: session.authInfo,
+    impersonator: impersonation.impersonator,
+  };
+}
+
+/**
+ * The key by which the sessions of a serialized user are listed in a session
+ * store.
+ */
+export function userKey(user: unknown): string {
+  return typeof user === 'string' ? user : JSON.stringify(user);
+}
+
+interface SessionBackend<SU> {
+  id?: () => string | undefined;
+  save(data: SessionData<SU>): Promise<void>;
+  destroy(): Promise<void>;
+  /**
+   * Extend the expiry of the saved session without saving its data.
+   */
+  extend(data: SessionData<SU>): Promise<void>;
+  /**
+   * Revoke the saved session, so that the next save creates a new one.
+   */
+  discard(): Promise<void>;
+}
+
+function createSession<SU>(
+  data: SessionData<SU>,
+  options: SessionOptions,
+  backend: SessionBackend<SU>,
+): Session<SU> {
+  const session = {...data} as Session<SU>;
+  // the methods are not enumerable, so that only the data is saved
+  Object.defineProperties(session, {
+    id: {get: () => backend.id?.()},
+    save: {
+      value: async () => {
+        const now = Date.now();
+        session.createdAt ??= now;
+        session.lastActiveAt ??= now;
+        session.csrfToken ??= randomString();
+        await backend.save({...session});
+      },
+    },
+    destroy: {
+      value: async () => {
+        replace(session, {});
+        await backend.destroy();
+      },
+    },
+    touch: {
+      value: async () => {
+        session.lastActiveAt = Date.now();
+        // the time of last use is only saved when it is needed to enforce the
+        // idle timeout, which spares writing the session on every request
+        if (options.idleTimeout) {
+          await session.save();
+        } else {
+          await backend.extend({...session});
+        }
+      },
+    },
+    regenerate: {
+      value: async (keep: (keyof SessionData<SU>)[] = []) => {
+        await backend.discard();
+        const kept: SessionData<SU> = {};
+        for (const key of keep) {
+          if (session[key] !== undefined) {
+            Object.assign(kept, {[key]: session[key]});
+          }
+        }
+        const now = Date.now();
+        replace(session, {createdAt: now, lastActiveAt: now, ...kept});
+      },
+    },
+  });
+  return session;
+}
+
+/**
+ * Time at which a saved session expires, according to the session options,
+ * in milliseconds since the epoch, or `undefined` if it does not.
+ */
+function expiry(
+  options: SessionOptions,
+  data: SessionData<unknown>,
+): StoredSession['expires'] {
+  const now = Date.now();
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const limits = [
+    ttl ? now + ttl * 1000 : Infinity,
+    options.idleTimeout
+      ? (data.lastActiveAt ?? now) + options.idleTimeout * 1000
+      : Infinity,
+    options.absoluteTimeout
+      ? (data.createdAt ?? now) + options.absoluteTimeout * 1000
+      : Infinity,
+  ];
+  const expires = Math.min(...limits);
+  return expires === Infinity ? undefined : expires;
+}
+
+function replace(target: object, data: object) {
+  for (const key of Object.keys(target)) {
+    delete target[key as keyof typeof target];
+  }
+  Object.assign(target, data);
+}
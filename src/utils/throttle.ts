@@ -0,0 +1,128 @@
+import {AttemptStore} from '../interfaces/attemptstore';
+import {AuthenticateContext} from '../interfaces/context';
+import {ThrottleOptions} from '../interfaces/strategy';
+import {clientIp} from './events';
+
+const DEFAULT_FREE_ATTEMPTS = 5;
+const DEFAULT_DELAY = 1;
+const DEFAULT_MAX_DELAY = 5 * 60;
+const DEFAULT_LOCKOUT_AFTER = 20;
+const DEFAULT_LOCKOUT_DURATION = 15 * 60;
+const DEFAULT_WINDOW = 60 * 60;
+
+export const DEFAULT_THROTTLE_MESSAGE =
+  'Too many failed attempts, try again later';
+
+/**
+ * The keys under which the failed attempts of a request are counted, as
+ * configured and when they are known.
+ */
+export interface ThrottleKeys {
+  ip?: string;
+  account?: string;
+}
+
+/**
+ * The keys under which the failed attempts of a request are counted: one for
+ * the IP address of the client and one for the account.
+ */
+export async function throttleKeys(
+  options: ThrottleOptions,
+  context: AuthenticateContext,
+  scope: string,
+): Promise<ThrottleKeys> {
+  const keys: ThrottleKeys = {};
+
+  if (options.ip !== false) {
+    const ip = clientIp(context.request, options.trustProxy);
+    if (ip) {
+      keys.ip = `${scope}:ip:${ip}`;
+    }
+  }
+
+  let identifier: unknown;
+  if (typeof options.identifier === 'string') {
+    identifier = (await context.body())[options.identifier];
+  } else if (options.identifier) {
+    identifier = await options.identifier(context);
+  }
+  if (typeof identifier === 'string' && identifier.trim()) {
+    keys.account = `${scope}:id:${identifier.trim().toLowerCase()}`;
+  }
+  return keys;
+}
+
+function keyList(keys: ThrottleKeys): string[] {
+  return [keys.ip, keys.account].filter(
+    (key): key is string => key !== undefined,
+  );
+}
+
+/**
+ * Resolve with the number of seconds until attempts under `keys` are allowed
+ * again, or 0 when they are allowed now.
+ */
+export async function retryAfter(
+  store: AttemptStore,
+  keys: ThrottleKeys,
+  now = Date.now(),
+): Promise<number> {
+  let lockedUntil = 0;
+  for (const key of keyList(keys)) {
+    const attempts = await store.get(key);
+    lockedUntil = Math.max(lockedUntil, attempts?.lockedUntil ?? 0);
+  }
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+}
+
+/**
+ * Count a failed attempt under each of `keys`, delaying further attempts
+ * once there have been `freeAttempts`.
+ */
+export async function recordFailure(
+  store: AttemptStore,
+  keys: ThrottleKeys,
+  options: ThrottleOptions,
+  now = Date.now(),
+): Promise<void> {
+  const freeAttempts = options.freeAttempts ?? DEFAULT_FREE_ATTEMPTS;
+  const lockoutAfter = options.lockoutAfter ?? DEFAULT_LOCKOUT_AFTER;
+
+  for (const key of keyList(keys)) {
+    const count = ((await store.get(key))?.count ?? 0) + 1;
+
+    let delay = 0;
+    if (count >= lockoutAfter) {
+      delay = options.lockoutDuration ?? DEFAULT_LOCKOUT_DURATION;
+    } else if (count >= freeAttempts) {
+      delay = Math.min(
+        (options.delay ?? DEFAULT_DELAY) * 2 ** (count - freeAttempts),
+        options.maxDelay ?? DEFAULT_MAX_DELAY,
+      );
+    }
+
+    const lockedUntil = delay ? now + delay * 1000 : undefined;
+    await store.set(key, {
+      count,
+      lockedUntil,
+      expires: Math.max(
+        now + (options.window ?? DEFAULT_WINDOW) * 1000,
+        lockedUntil ?? 0,
+      ),
+    });
+  }
+}
+
+/**
+ * Forget the failed attempts of the account once authentication succeeds.
+ * Those of the IP address are left to expire, as a client could otherwise
+ * clear them by logging into an account of its own between guesses.
+ */
+export async function resetAttempts(
+  store: AttemptStore,
+  keys: ThrottleKeys,
+): Promise<void> {
+  if (keys.account !== undefined) {
+    await store.delete(keys.account);
+  }
+}
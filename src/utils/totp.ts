@@ -0,0 +1,239 @@
+/**
+ * Time-based one-time passwords (RFC 6238), and the helpers with which users
+ * enroll in them, built on the Web Crypto API.
+ */
+
+import {base64UrlEncode, randomString, sha256, timingSafeEqual} from './crypto';
+
+export type TotpAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-512';
+
+export interface TotpOptions {
+  /**
+   * Number of digits in a code, defaults to 6.
+   */
+  digits?: number;
+
+  /**
+   * Length of a time step in seconds, defaults to 30.
+   */
+  period?: number;
+
+  /**
+   * Hash algorithm, defaults to `'SHA-1'`, which authenticator apps support
+   * most widely.
+   */
+  algorithm?: TotpAlgorithm;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  /**
+   * Number of time steps before and after the current one whose codes are
+   * also accepted, allowing for clock drift, defaults to 1.
+   */
+  window?: number;
+
+  /**
+   * Time step of the code last accepted.  Codes of that step, or of an
+   * earlier one, are refused, so that a code cannot be used twice.
+   */
+  lastStep?: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Generate a random secret of `size` bytes, encoded in base32 as
+ * authenticator apps expect.
+ */
+export function generateTotpSecret(size: number = 20): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(size)));
+}
+
+/**
+ * Build the `otpauth://` URI with which an authenticator app is set up,
+ * typically shown to the user as a QR code.
+ *
+ * Examples:
+ *
+ *     const uri = totpUri({secret, issuer: 'Acme', account: user.email});
+ */
+export function totpUri(
+  options: TotpOptions & {secret: string; issuer: string; account: string},
+): string {
+  const label = `${encodeURIComponent(options.issuer)}:${encodeURIComponent(
+    options.account,
+  )}`;
+  const params = new URLSearchParams({
+    secret: options.secret,
+    issuer: options.issuer,
+    algorithm: (options.algorithm ?? 'SHA-1').replace('-', ''),
+    digits: String(options.digits ?? 6),
+    period: String(options.period ?? 30),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/**
+ * Get the time step containing `now`, in milliseconds since the epoch.
+ */
+export function totpStep(options: TotpOptions = {}, now = Date.now()): number {
+  return Math.floor(now / 1000 / (options.period ?? 30));
+}
+
+/**
+ * Generate the code of `secret` for the given time step.
+ */
+export async function generateTotp(
+  secret: string,
+  step: number,
+  options: TotpOptions = {},
+): Promise<string> {
+  const digits = options.digits ?? 6;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    {name: 'HMAC', hash: options.algorithm ?? 'SHA-1'},
+    false,
+    ['sign'],
+  );
+
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const mac = new Uint8Array(
+    await crypto.subtle.sign('HMAC', key, counter.buffer),
+  );
+
+  // dynamic truncation, as described by RFC 4226
+  const offset = mac[mac.length - 1] & 0xf;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Check `code` against the codes of `secret` around `now`.  Resolves with the
+ * time step of the matching code, or `undefined` when none matches.
+ *
+ * Used to confirm enrollment, by asking for a first code before the secret
+ * is saved, as well as by `TotpStrategy`.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  options: VerifyTotpOptions = {},
+  now = Date.now(),
+): Promise<number | undefined> {
+  const window = options.window ?? 1;
+  const current = totpStep(options, now);
+  let matched: number | undefined;
+  // every step in the window is checked, so that the time taken does not
+  // reveal which one matched
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = await generateTotp(secret, step, options);
+    if (timingSafeEqual(expected, code) && matched === undefined) {
+      matched = step;
+    }
+  }
+  if (
+    matched === undefined ||
+    (options.lastStep !== undefined && matched <= options.lastStep)
+  ) {
+    return undefined;
+  }
+  return matched;
+}
+
+/**
+ * Generate recovery codes, which let users log in once each when they lose
+ * their authenticator.  The codes are shown to the user once, while only
+ * their hashes are saved.  Each code carries 80 bits of entropy, so that it
+ * cannot be guessed from its hash.
+ */
+export async function generateRecoveryCodes(
+  count: number = 10,
+): Promise<{codes: string[]; hashes: string[]}> {
+  const codes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(10)));
+    codes.push(code.match(/.{4}/g)!.join('-').toLowerCase());
+  }
+  return {
+    codes,
+    hashes: await Promise.all(codes.map(code => hashRecoveryCode(code))),
+  };
+}
+
+/**
+ * Hash a recovery code for storage, with a random salt that is kept with the
+ * hash.  Case, spaces and dashes are ignored, so that codes may be typed as
+ * they are read.
+ */
+export async function hashRecoveryCode(
+  code: string,
+  salt: string = randomString(16),
+): Promise<string> {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return `${salt}.${base64UrlEncode(await sha256(`${salt}.${normalized}`))}`;
+}
+
+/**
+ * Find `code` among the hashes of the user's unused recovery codes.
+ * Resolves with the index of its hash, which must then be removed so that
+ * the code is not used again, or -1 when it does not match.
+ */
+export async function verifyRecoveryCode(
+  code: string,
+  hashes: string[],
+): Promise<number> {
+  let index = -1;
+  for (let i = 0; i < hashes.length; i++) {
+    const [salt] = hashes[i].split('.');
+    const hash = await hashRecoveryCode(code, salt);
+    if (timingSafeEqual(hashes[i], hash) && index === -1) {
+      index = i;
+    }
+  }
+  return index;
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(value: string): Uint8Array {
+  const chars = value.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of chars) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new TypeError('Invalid base32 secret');
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
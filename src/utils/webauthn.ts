@@ -0,0 +1,263 @@
+/**
+ * Parsing and verification of the data of WebAuthn ceremonies: client data,
+ * authenticator data, attestation objects and COSE keys.
+ */
+
+import {WebAuthnError} from '../errors/webauthnerror';
+import {decodeCbor, decodeCborPrefix} from './cbor';
+import {base64UrlDecode, base64UrlEncode, sha256} from './crypto';
+import {importJwk, verifyWithAlgorithm} from './jwt';
+
+/**
+ * COSE algorithm identifiers of the supported credentials, and the name of
+ * each algorithm as used by JWTs.
+ */
+export const COSE_ALGORITHMS: {[alg: number]: string} = {
+  [-7]: 'ES256',
+  [-8]: 'EdDSA',
+  [-257]: 'RS256',
+};
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+
+  /**
+   * The credential created by a registration ceremony.
+   */
+  attestedCredential?: {
+    aaguid: Uint8Array;
+    id: Uint8Array;
+    publicKey: Uint8Array;
+  };
+}
+
+const decoder = new TextDecoder();
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export function parseClientData(clientDataJSON: Uint8Array): ClientData {
+  let clientData: any;
+  try {
+    clientData = JSON.parse(decoder.decode(clientDataJSON));
+  } catch {
+    throw new WebAuthnError('Malformed client data');
+  }
+  if (
+    typeof clientData?.type !== 'string' ||
+    typeof clientData.challenge !== 'string' ||
+    typeof clientData.origin !== 'string'
+  ) {
+    throw new WebAuthnError('Malformed client data');
+  }
+  return clientData;
+}
+
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  if (bytes.length < 37) {
+    throw new WebAuthnError('Malformed authenticator data');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flags = bytes[32];
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    userPresent: !!(flags & FLAG_USER_PRESENT),
+    userVerified: !!(flags & FLAG_USER_VERIFIED),
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (bytes.length < 55) {
+      throw new WebAuthnError('Malformed authenticator data');
+    }
+    const idLength = view.getUint16(53);
+    const id = bytes.slice(55, 55 + idLength);
+    if (id.length !== idLength) {
+      throw new WebAuthnError('Malformed authenticator data');
+    }
+    let keyLength: number;
+    try {
+      keyLength = decodeCborPrefix(bytes.subarray(55 + idLength)).length;
+    } catch {
+      throw new WebAuthnError('Malformed credential public key');
+    }
+    data.attestedCredential = {
+      aaguid: bytes.slice(37, 53),
+      id,
+      publicKey: bytes.slice(55 + idLength, 55 + idLength + keyLength),
+    };
+  }
+  return data;
+}
+
+/**
+ * Decode an attestation object into its format, statement and authenticator
+ * data.
+ */
+export function parseAttestationObject(bytes: Uint8Array): {
+  fmt: string;
+  attStmt: Map<unknown, unknown>;
+  authData: Uint8Array;
+} {
+  let object: unknown;
+  try {
+    object = decodeCbor(bytes);
+  } catch {
+    throw new WebAuthnError('Malformed attestation object');
+  }
+  const fmt = object instanceof Map && object.get('fmt');
+  const attStmt = object instanceof Map && object.get('attStmt');
+  const authData = object instanceof Map && object.get('authData');
+  if (
+    typeof fmt !== 'string' ||
+    !(attStmt instanceof Map) ||
+    !(authData instanceof Uint8Array)
+  ) {
+    throw new WebAuthnError('Malformed attestation object');
+  }
+  return {fmt, attStmt, authData};
+}
+
+/**
+ * Import a COSE public key, resolving with the key and its COSE algorithm.
+ * Only ES256, EdDSA (Ed25519) and RS256 keys are supported.
+ */
+export async function importCoseKey(
+  bytes: Uint8Array,
+): Promise<{key: CryptoKey; alg: number}> {
+  let cose: unknown;
+  try {
+    cose = decodeCbor(bytes);
+  } catch {
+    throw new WebAuthnError('Malformed credential public key');
+  }
+  if (!(cose instanceof Map)) {
+    throw new WebAuthnError('Malformed credential public key');
+  }
+
+  const alg = cose.get(3);
+  const jwk = coseToJwk(cose);
+  if (typeof alg !== 'number' || !COSE_ALGORITHMS[alg] || !jwk) {
+    throw new WebAuthnError('Unsupported credential public key');
+  }
+  try {
+    return {key: await importJwk(jwk, COSE_ALGORITHMS[alg]), alg};
+  } catch {
+    throw new WebAuthnError('Invalid credential public key');
+  }
+}
+
+/**
+ * Check the signature of an authenticator over `authData` followed by the
+ * hash of the client data.
+ */
+export async function verifyAuthenticatorSignature(
+  key: CryptoKey,
+  alg: number,
+  signature: Uint8Array,
+  authData: Uint8Array,
+  clientDataJSON: Uint8Array,
+): Promise<boolean> {
+  const hash = await sha256(clientDataJSON);
+  const data = new Uint8Array(authData.length + hash.length);
+  data.set(authData);
+  data.set(hash, authData.length);
+
+  // authenticators sign with ECDSA in ASN.1 DER, which Web Crypto does not
+  // accept
+  const raw = alg === -7 ? derToRawSignature(signature, 32) : signature;
+  if (!raw) {
+    return false;
+  }
+  try {
+    return await verifyWithAlgorithm(COSE_ALGORITHMS[alg], key, raw, data);
+  } catch {
+    // such as a signature of the wrong length for the key
+    return false;
+  }
+}
+
+export function decodeBase64UrlField(value: unknown, name: string): Uint8Array {
+  if (typeof value !== 'string' || !/^[\w-]*$/.test(value)) {
+    throw new WebAuthnError(`Malformed ${name}`);
+  }
+  return base64UrlDecode(value);
+}
+
+function coseToJwk(cose: Map<unknown, unknown>): JsonWebKey | undefined {
+  const kty = cose.get(1);
+  const crv = cose.get(-1);
+  const x = cose.get(-2);
+  const y = cose.get(-3);
+
+  if (
+    kty === 2 &&
+    crv === 1 &&
+    x instanceof Uint8Array &&
+    y instanceof Uint8Array
+  ) {
+    return {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(x),
+      y: base64UrlEncode(y),
+    };
+  }
+  if (kty === 1 && crv === 6 && x instanceof Uint8Array) {
+    return {kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(x)};
+  }
+  // RSA keys carry the modulus and exponent under the labels used by EC keys
+  // for the curve and x coordinate
+  if (kty === 3 && crv instanceof Uint8Array && x instanceof Uint8Array) {
+    return {kty: 'RSA', n: base64UrlEncode(crv), e: base64UrlEncode(x)};
+  }
+  return undefined;
+}
+
+/**
+ * Convert an ASN.1 DER encoded ECDSA signature to the concatenated `r` and
+ * `s` values, each `size` bytes long.
+ */
+function derToRawSignature(
+  der: Uint8Array,
+  size: number,
+): Uint8Array | undefined {
+  // SEQUENCE { INTEGER r, INTEGER s }, short enough for one length byte
+  if (der[0] !== 0x30 || der[1] !== der.length - 2) {
+    return undefined;
+  }
+  const raw = new Uint8Array(size * 2);
+  let offset = 2;
+  for (let i = 0; i < 2; i++) {
+    if (der[offset] !== 0x02) {
+      return undefined;
+    }
+    const length = der[offset + 1];
+    let value = der.subarray(offset + 2, offset + 2 + length);
+    if (value.length !== length) {
+      return undefined;
+    }
+    offset += 2 + length;
+    // integers are signed, so a leading zero is added to positive ones with
+    // the high bit set
+    while (value.length > size && value[0] === 0) {
+      value = value.subarray(1);
+    }
+    if (value.length > size || value.length === 0) {
+      return undefined;
+    }
+    raw.set(value, size * (i + 1) - value.length);
+  }
+  return offset === der.length ? raw : undefined;
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, Strategy} from '../src/index.ts';
+
+const ORIGIN = 'https://app.test';
+
+class ProviderStrategy extends Strategy {
+  constructor() {
+    super('provider');
+  }
+
+  async authenticate() {
+    return this.success({provider: 'github', id: '42'}, {});
+  }
+}
+
+function setup(link) {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(new ProviderStrategy());
+  const middleware = passport.authorize('provider', {csrf: false}, link);
+
+  return async (loggedIn = true) => {
+    let cookie = '';
+    if (loggedIn) {
+      const manager = passport._sessionManager.forRequest(
+        new NextRequest(ORIGIN),
+      );
+      await manager.logIn({id: 'bob'});
+      cookie = manager
+        .commit(new Response())
+        .headers.get('set-cookie')
+        .split(';')[0];
+    }
+    return middleware(
+      new NextRequest(`${ORIGIN}/link/github`, {headers: {cookie}}),
+    );
+  };
+}
+
+describe('authorize with a strategy', function () {
+  it('links the account to the logged in user', async function () {
+    const links = [];
+    const link = setup(async (user, account) => {
+      links.push([user.id, account.id]);
+    });
+    const res = await link();
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+    assert.deepEqual(links, [['bob', '42']]);
+  });
+
+  it('sends the message of a refused link in the body', async function () {
+    const link = setup(async () => 'Ce compte est déjà lié à un autre ✋');
+    const res = await link();
+    assert.equal(res.status, 403);
+    assert.equal(res.headers.get('www-authenticate'), null);
+    assert.deepEqual(await res.json(), {
+      error: 'Ce compte est déjà lié à un autre ✋',
+    });
+  });
+
+  it('refuses to link an account with nobody logged in', async function () {
+    const link = setup(async () => assert.fail('linked'));
+    const res = await link(false);
+    assert.equal(res.status, 401);
+    assert.equal(res.headers.get('www-authenticate'), null);
+    assert.deepEqual(await res.json(), {
+      error: 'Log in before linking an account',
+    });
+  });
+});
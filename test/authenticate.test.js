@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import {NextRequest, NextResponse} from 'next/server';
+
+import {Authenticator, Strategy} from '../src/index.ts';
+
+/**
+ * A strategy reporting the outcome it was created with, and counting how
+ * often it was attempted.
+ */
+class FixedStrategy extends Strategy {
+  constructor(name, outcome) {
+    super(name);
+    this.outcome = outcome;
+    this.attempts = 0;
+  }
+
+  async authenticate() {
+    Object.getPrototypeOf(this).attempts++;
+    const {user, challenge, status, error} = this.outcome;
+    if (error) {
+      return this.error(error);
+    }
+    if (user) {
+      return this.success(user, {});
+    }
+    return this.fail(challenge, status);
+  }
+}
+
+function setup(strategies) {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  for (const strategy of strategies) {
+    passport.use(strategy);
+  }
+  return passport;
+}
+
+function request() {
+  return new NextRequest('https://app.test/api', {method: 'GET'});
+}
+
+describe('authenticate', function () {
+  it('stops at the first strategy that succeeds', async function () {
+    const first = new FixedStrategy('first', {challenge: 'First'});
+    const second = new FixedStrategy('second', {user: {id: 'bob'}});
+    const third = new FixedStrategy('third', {user: {id: 'eve'}});
+    const passport = setup([first, second, third]);
+
+    const res = await passport.authenticate(['first', 'second', 'third'], {
+      session: false,
+    })(request());
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+    assert.deepEqual(
+      [first.attempts, second.attempts, third.attempts],
+      [1, 1, 0],
+    );
+  });
+
+  it('responds with the challenges of every strategy when all fail', async function () {
+    const passport = setup([
+      new FixedStrategy('basic', {challenge: 'Basic realm="Users"'}),
+      new FixedStrategy('bearer', {challenge: 'Bearer realm="Users"'}),
+    ]);
+
+    const res = await passport.authenticate(['basic', 'bearer'], {
+      session: false,
+    })(request());
+    assert.equal(res.status, 401);
+    assert.equal(
+      res.headers.get('www-authenticate'),
+      'Basic realm="Users", Bearer realm="Users"',
+    );
+  });
+
+  it('responds with the status of the first strategy that chose one', async function () {
+    const passport = setup([
+      new FixedStrategy('first', {challenge: 'First'}),
+      new FixedStrategy('second', {status: 400}),
+    ]);
+
+    const res = await passport.authenticate(['first', 'second'], {
+      session: false,
+    })(request());
+    assert.equal(res.status, 400);
+  });
+
+  it('passes the failures to the callback', async function () {
+    const passport = setup([
+      new FixedStrategy('first', {challenge: 'First'}),
+      new FixedStrategy('second', {challenge: 'Second', status: 403}),
+    ]);
+
+    const res = await passport.authenticate(
+      ['first', 'second'],
+      {session: false},
+      async (err, user, challenges, statuses) =>
+        NextResponse.json({err, user, challenges, statuses}),
+    )(request());
+    assert.deepEqual(await res.json(), {
+      err: null,
+      user: false,
+      challenges: ['First', 'Second'],
+      statuses: [null, 403],
+    });
+  });
+
+  it('logs the user in and redirects', async function () {
+    const passport = setup([new FixedStrategy('ok', {user: {id: 'bob'}})]);
+
+    const res = await passport.authenticate('ok', {successRedirect: '/home'})(
+      request(),
+    );
+    assert.equal(res.status, 307);
+    assert.equal(res.headers.get('location'), 'https://app.test/home');
+    assert.match(res.headers.get('set-cookie'), /^session=/);
+  });
+
+  it('redirects failures to failureRedirect', async function () {
+    const passport = setup([new FixedStrategy('nope', {challenge: 'Nope'})]);
+
+    const res = await passport.authenticate('nope', {
+      failureRedirect: '/login',
+    })(request());
+    assert.equal(res.status, 307);
+    assert.equal(res.headers.get('location'), 'https://app.test/login');
+  });
+
+  it('responds to errors without disclosing them', async function () {
+    const passport = setup([
+      new FixedStrategy('broken', {error: new Error('database is down')}),
+    ]);
+
+    const res = await passport.authenticate('broken', {session: false})(
+      request(),
+    );
+    assert.equal(res.status, 500);
+    assert.deepEqual(await res.json(), {error: 'Internal Server Error'});
+  });
+
+  it('responds with an error to an unknown strategy', async function () {
+    const passport = setup([]);
+    const res = await passport.authenticate('missing', {session: false})(
+      request(),
+    );
+    assert.equal(res.status, 500);
+  });
+});
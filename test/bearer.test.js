@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, BearerStrategy, Strategy} from '../src/index.ts';
+
+class RefusingStrategy extends Strategy {
+  constructor() {
+    super('refusing');
+  }
+
+  async authenticate() {
+    return this.fail('Your account is not allowed here', 403);
+  }
+}
+
+function setup(name = 'bearer') {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.use(
+    new BearerStrategy({realm: 'API'}, async token =>
+      token === 'secret' ? {user: {id: 'bob'}} : {user: false},
+    ),
+  );
+  passport.use(new RefusingStrategy());
+  const middleware = passport.authenticate(name, {session: false});
+  return (headers = {}, url = 'https://api.test/') =>
+    middleware(new NextRequest(url, {headers}));
+}
+
+describe('BearerStrategy', function () {
+  it('authenticates a valid token', async function () {
+    const res = await setup()({authorization: 'Bearer secret'});
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+
+  it('challenges requests without a token', async function () {
+    const res = await setup()();
+    assert.equal(res.status, 401);
+    assert.equal(res.headers.get('www-authenticate'), 'Bearer realm="API"');
+  });
+
+  it('challenges requests with an invalid token', async function () {
+    const res = await setup()({authorization: 'Bearer wrong'});
+    assert.equal(res.status, 401);
+    assert.equal(
+      res.headers.get('www-authenticate'),
+      'Bearer realm="API", error="invalid_token"',
+    );
+  });
+
+  it('sends the invalid_request challenge of a request with two tokens', async function () {
+    const res = await setup()(
+      {authorization: 'Bearer secret'},
+      'https://api.test/?access_token=secret',
+    );
+    assert.equal(res.status, 400);
+    assert.equal(
+      res.headers.get('www-authenticate'),
+      'Bearer realm="API", error="invalid_request"',
+    );
+  });
+
+  it('keeps the messages of other failures out of WWW-Authenticate', async function () {
+    const res = await setup(['bearer', 'refusing'])({
+      authorization: 'Bearer wrong',
+    });
+    assert.equal(res.status, 403);
+    assert.equal(res.headers.get('www-authenticate'), null);
+  });
+});
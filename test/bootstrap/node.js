@@ -0,0 +1,12 @@
+import {AsyncLocalStorage} from 'node:async_hooks';
+import {webcrypto} from 'node:crypto';
+import {register} from 'tsx/esm/api';
+
+// Next.js expects its runtime to provide `AsyncLocalStorage` as a global
+globalThis.AsyncLocalStorage = AsyncLocalStorage;
+
+// Node 18 only exposes Web Crypto as `globalThis.crypto` with a flag
+globalThis.crypto ??= webcrypto;
+
+// tests import the TypeScript sources directly
+register();
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import {NextRequest, NextResponse} from 'next/server';
+
+import {CookieJar} from '../src/utils/cookies.ts';
+
+function jar() {
+  const req = new NextRequest('https://app.test/', {
+    headers: {cookie: 'session=old; theme=dark'},
+  });
+  return new CookieJar(req.cookies);
+}
+
+describe('CookieJar', function () {
+  it('reads the cookies of the request until they are set', function () {
+    const cookies = jar();
+    assert.deepEqual(cookies.get('theme'), {name: 'theme', value: 'dark'});
+    cookies.set('session', 'new', {httpOnly: true});
+    assert.deepEqual(cookies.get('session'), {name: 'session', value: 'new'});
+  });
+
+  it('writes the cookies that were set onto a response', function () {
+    const cookies = jar();
+    cookies.set('session', 'new', {httpOnly: true, path: '/'});
+    const res = cookies.applyTo(new Response('ok'));
+    assert.equal(
+      res.headers.get('set-cookie'),
+      'session=new; Path=/; HttpOnly',
+    );
+  });
+
+  it('copies a response with immutable headers', async function () {
+    const cookies = jar();
+    cookies.set({name: 'session', value: 'new'});
+    const res = cookies.applyTo(Response.redirect('https://app.test/home'));
+    assert.equal(res.status, 302);
+    assert.equal(res.headers.get('location'), 'https://app.test/home');
+    assert.equal(res.headers.get('set-cookie'), 'session=new; Path=/');
+  });
+
+  it('keeps the cookies set on a NextResponse', function () {
+    const cookies = jar();
+    cookies.set('session', 'new');
+    const res = NextResponse.next();
+    res.cookies.set('theme', 'light');
+    cookies.applyTo(res);
+    assert.deepEqual(
+      res.cookies.getAll().map(cookie => cookie.name),
+      ['theme', 'session'],
+    );
+  });
+});
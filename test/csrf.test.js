@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {
+  Authenticator,
+  BearerStrategy,
+  JwtStrategy,
+  LocalStrategy,
+} from '../src/index.ts';
+
+const ORIGIN = 'https://app.test';
+
+function setup() {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(
+    new LocalStrategy(async (username, password) =>
+      password === 'secret' ? {user: {id: username}} : {user: false},
+    ),
+  );
+  passport.use(
+    new BearerStrategy(async token =>
+      token === 'token' ? {user: {id: 'api'}} : {user: false},
+    ),
+  );
+  passport.use(
+    new JwtStrategy({
+      algorithms: ['HS256'],
+      key: 'k'.repeat(32),
+      tokenFrom: {cookie: 'token'},
+    }),
+  );
+  return passport;
+}
+
+// a session cookie, and the CSRF token of that session
+async function session(passport) {
+  const manager = passport._sessionManager.forRequest(new NextRequest(ORIGIN));
+  await manager.logIn({id: 'bob'});
+  const cookie = manager
+    .commit(new Response())
+    .headers.get('set-cookie')
+    .split(';')[0];
+  const {csrfToken} = await passport._sessionManager
+    .forRequest(new NextRequest(ORIGIN, {headers: {cookie}}))
+    .getSession();
+  return {cookie, csrfToken};
+}
+
+function post(body, headers = {}) {
+  return new NextRequest(`${ORIGIN}/login`, {
+    method: 'POST',
+    headers: {'content-type': 'application/x-www-form-urlencoded', ...headers},
+    body: new URLSearchParams(body).toString(),
+  });
+}
+
+const credentials = {username: 'alice', password: 'secret'};
+
+describe('CSRF protection', function () {
+  it('refuses a login without the token of the session', async function () {
+    const passport = setup();
+    const {cookie} = await session(passport);
+    const res = await passport.authenticate('local')(
+      post(credentials, {cookie}),
+    );
+    assert.equal(res.status, 403);
+  });
+
+  it('accepts the token in the _csrf field or the X-CSRF-Token header', async function () {
+    const passport = setup();
+    const {cookie, csrfToken} = await session(passport);
+    const login = passport.authenticate('local');
+
+    let res = await login(post({...credentials, _csrf: csrfToken}, {cookie}));
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+    res = await login(post(credentials, {cookie, 'x-csrf-token': csrfToken}));
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+
+  it('refuses a first visit from another site', async function () {
+    const passport = setup();
+    const login = passport.authenticate('local');
+
+    let res = await login(post(credentials, {origin: 'https://evil.test'}));
+    assert.equal(res.status, 403);
+    res = await login(post(credentials, {origin: ORIGIN}));
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+
+  it('redirects a refused request to failureRedirect', async function () {
+    const passport = setup();
+    const {cookie} = await session(passport);
+    const res = await passport.authenticate('local', {
+      failureRedirect: '/login',
+    })(post(credentials, {cookie}));
+    assert.equal(res.status, 307);
+    assert.equal(res.headers.get('location'), `${ORIGIN}/login`);
+  });
+
+  it('does not check requests of API routes authenticated by a bearer token', async function () {
+    const passport = setup();
+    const {cookie} = await session(passport);
+    const res = await passport.authenticate('bearer', {session: false})(
+      post({}, {cookie, authorization: 'Bearer token'}),
+    );
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+
+  it('checks API routes that read credentials from cookies', async function () {
+    const passport = setup();
+    const {cookie} = await session(passport);
+    for (const name of ['jwt', ['session', 'bearer']]) {
+      const res = await passport.authenticate(name, {session: false})(
+        post({}, {cookie, authorization: 'Bearer token'}),
+      );
+      assert.equal(res.status, 403);
+    }
+  });
+
+  it('checks bearer logins into the session', async function () {
+    const passport = setup();
+    const {cookie} = await session(passport);
+    const res = await passport.authenticate('bearer')(
+      post({access_token: 'token'}, {cookie}),
+    );
+    assert.equal(res.status, 403);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, Strategy} from '../src/index.ts';
+
+class UserStrategy extends Strategy {
+  constructor() {
+    super('user');
+  }
+
+  async authenticate() {
+    return this.success({id: 'bob'}, {});
+  }
+}
+
+function setup() {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(new UserStrategy());
+  const middleware = passport.authenticate('user', {csrf: false});
+  return {
+    passport,
+    logIn: () => middleware(new NextRequest('https://app.test/login')),
+  };
+}
+
+describe('login events', function () {
+  it('reports the user who logs in', async function () {
+    const {passport, logIn} = setup();
+    const events = [];
+    passport.on('login', async event => {
+      events.push([event.strategy, event.user.id]);
+    });
+
+    const res = await logIn();
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+    assert.match(res.headers.get('set-cookie'), /^session=/);
+    assert.deepEqual(events, [['user', 'bob']]);
+  });
+
+  it('sends the message of a vetoed login in the body', async function () {
+    const {passport, logIn} = setup();
+    const failures = [];
+    passport.on('login', async () => 'Compte suspendu ✋');
+    passport.on('login', async () => assert.fail('called after a veto'));
+    passport.on('failure', async event => {
+      failures.push([event.message, event.status]);
+    });
+
+    const res = await logIn();
+    assert.equal(res.status, 403);
+    assert.equal(res.headers.get('www-authenticate'), null);
+    assert.equal(res.headers.get('set-cookie'), null);
+    assert.deepEqual(await res.json(), {error: 'Compte suspendu ✋'});
+    assert.deepEqual(failures, [['Compte suspendu ✋', 403]]);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+
+import {RemoteKeySet} from '../src/utils/jwks.ts';
+
+async function generateKeys() {
+  return crypto.subtle.generateKey({name: 'ECDSA', namedCurve: 'P-256'}, true, [
+    'sign',
+    'verify',
+  ]);
+}
+
+describe('RemoteKeySet', function () {
+  it('reloads a stale key set within the cooldown', async function () {
+    const keys = await generateKeys();
+    const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+    let loads = 0;
+    const keySet = new RemoteKeySet('https://issuer.test/jwks', {
+      cacheMaxAge: 0.01,
+      cooldown: 30,
+      fetch: async () => {
+        loads++;
+        return Response.json({keys: [{...jwk, kid: 'one'}]});
+      },
+    });
+
+    await keySet.getKey({alg: 'ES256', kid: 'one'});
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await keySet.getKey({alg: 'ES256', kid: 'one'});
+    assert.equal(loads, 2);
+  });
+
+  it('waits for the cooldown before reloading for an unknown key', async function () {
+    const keys = await generateKeys();
+    const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+    let loads = 0;
+    const keySet = new RemoteKeySet('https://issuer.test/jwks', {
+      fetch: async () => {
+        loads++;
+        return Response.json({keys: [{...jwk, kid: 'one'}]});
+      },
+    });
+
+    await keySet.getKey({alg: 'ES256', kid: 'one'});
+    await assert.rejects(keySet.getKey({alg: 'ES256', kid: 'two'}), {
+      message: 'No matching key found',
+    });
+    assert.equal(loads, 1);
+  });
+
+  it('reloads for an unknown key once the cooldown has passed', async function () {
+    const jwks = {keys: []};
+    for (const kid of ['one', 'two']) {
+      const keys = await generateKeys();
+      const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+      jwks.keys.push({...jwk, kid});
+    }
+    let loads = 0;
+    const keySet = new RemoteKeySet('https://issuer.test/jwks', {
+      cooldown: 0.01,
+      fetch: async () => {
+        loads++;
+        return Response.json({keys: jwks.keys.slice(0, loads)});
+      },
+    });
+
+    await keySet.getKey({alg: 'ES256', kid: 'one'});
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await keySet.getKey({alg: 'ES256', kid: 'two'});
+    assert.equal(loads, 2);
+  });
+});
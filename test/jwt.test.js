@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict';
+import {NextRequest, NextResponse} from 'next/server';
+
+import {Authenticator, JwtStrategy} from '../src/index.ts';
+
+const encoder = new TextEncoder();
+
+function encode(value) {
+  return Buffer.from(
+    value instanceof ArrayBuffer ? value : JSON.stringify(value),
+  ).toString('base64url');
+}
+
+const PARAMS = {
+  ES256: {name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256'},
+  RS256: {
+    name: 'RSASSA-PKCS1-v1_5',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256',
+  },
+  EdDSA: {name: 'Ed25519'},
+};
+
+async function generateKeys(alg) {
+  return crypto.subtle.generateKey(PARAMS[alg], true, ['sign', 'verify']);
+}
+
+async function sign(alg, key, payload, header = {}) {
+  const data = `${encode({alg, typ: 'JWT', ...header})}.${encode(payload)}`;
+  const signature =
+    alg === 'HS256'
+      ? await crypto.subtle.sign(
+          'HMAC',
+          await crypto.subtle.importKey(
+            'raw',
+            encoder.encode(key),
+            {name: 'HMAC', hash: 'SHA-256'},
+            false,
+            ['sign'],
+          ),
+          encoder.encode(data),
+        )
+      : await crypto.subtle.sign(PARAMS[alg], key, encoder.encode(data));
+  return `${data}.${encode(signature)}`;
+}
+
+function claims(extra = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return {sub: 'alice', iat: now, exp: now + 60, ...extra};
+}
+
+// resolves with what the strategy reported to the callback
+async function authenticate(strategy, token) {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.use(strategy);
+  const middleware = passport.authenticate(
+    strategy.name,
+    {session: false},
+    async (err, user, info, status) =>
+      NextResponse.json({err: err?.message, user, info, status}),
+  );
+  const res = await middleware(
+    new NextRequest('https://api.test/', {
+      headers: {authorization: `Bearer ${token}`},
+    }),
+  );
+  return res.json();
+}
+
+describe('JwtStrategy', function () {
+  for (const alg of ['ES256', 'RS256', 'EdDSA']) {
+    describe(alg, function () {
+      let keys;
+      before(async function () {
+        keys = await generateKeys(alg);
+      });
+
+      it('authenticates a token signed with the key', async function () {
+        const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+        const strategy = new JwtStrategy({algorithms: [alg], key: jwk});
+        const token = await sign(alg, keys.privateKey, claims());
+        const result = await authenticate(strategy, token);
+        assert.equal(result.user.sub, 'alice');
+      });
+
+      it('accepts a CryptoKey', async function () {
+        const strategy = new JwtStrategy({
+          algorithms: [alg],
+          key: keys.publicKey,
+        });
+        const token = await sign(alg, keys.privateKey, claims());
+        const result = await authenticate(strategy, token);
+        assert.equal(result.user.sub, 'alice');
+      });
+
+      it('refuses a token signed with another key', async function () {
+        const other = await generateKeys(alg);
+        const strategy = new JwtStrategy({
+          algorithms: [alg],
+          key: keys.publicKey,
+        });
+        const token = await sign(alg, other.privateKey, claims());
+        const result = await authenticate(strategy, token);
+        assert.equal(result.user, false);
+        assert.match(result.info, /Invalid signature/);
+      });
+    });
+  }
+
+  it('authenticates a token signed with a shared secret', async function () {
+    const secret = 'a'.repeat(32);
+    const strategy = new JwtStrategy({algorithms: ['HS256'], key: secret});
+    const token = await sign('HS256', secret, claims());
+    const result = await authenticate(strategy, token);
+    assert.equal(result.user.sub, 'alice');
+  });
+
+  it('refuses an algorithm that is not allowed', async function () {
+    const secret = 'a'.repeat(32);
+    const strategy = new JwtStrategy({algorithms: ['ES256'], key: secret});
+    const token = await sign('HS256', secret, claims());
+    const result = await authenticate(strategy, token);
+    assert.equal(result.user, false);
+    assert.match(result.info, /Unexpected algorithm/);
+  });
+
+  it('refuses an expired token', async function () {
+    const keys = await generateKeys('ES256');
+    const strategy = new JwtStrategy({
+      algorithms: ['ES256'],
+      key: keys.publicKey,
+    });
+    const token = await sign(
+      'ES256',
+      keys.privateKey,
+      claims({exp: Math.floor(Date.now() / 1000) - 120}),
+    );
+    const result = await authenticate(strategy, token);
+    assert.equal(result.user, false);
+    assert.match(result.info, /Token has expired/);
+  });
+
+  it('checks the issuer and audience', async function () {
+    const keys = await generateKeys('ES256');
+    const strategy = new JwtStrategy({
+      algorithms: ['ES256'],
+      key: keys.publicKey,
+      issuer: 'https://issuer.test',
+      audience: 'api',
+    });
+    const good = await sign(
+      'ES256',
+      keys.privateKey,
+      claims({iss: 'https://issuer.test', aud: 'api'}),
+    );
+    const bad = await sign(
+      'ES256',
+      keys.privateKey,
+      claims({iss: 'https://issuer.test', aud: 'other'}),
+    );
+    assert.equal((await authenticate(strategy, good)).user.sub, 'alice');
+    assert.match(
+      (await authenticate(strategy, bad)).info,
+      /Unexpected audience/,
+    );
+  });
+
+  it('chooses the key from a key set by its ID', async function () {
+    const keys = await generateKeys('ES256');
+    const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+    const strategy = new JwtStrategy({
+      algorithms: ['ES256'],
+      jwksURL: 'https://issuer.test/jwks',
+      fetch: async () => Response.json({keys: [{...jwk, kid: 'one'}]}),
+    });
+    const token = await sign('ES256', keys.privateKey, claims(), {kid: 'one'});
+    const result = await authenticate(strategy, token);
+    assert.equal(result.user.sub, 'alice');
+  });
+});
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import {createHash} from 'node:crypto';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, OAuth2Strategy} from '../src/index.ts';
+
+const ORIGIN = 'https://app.test';
+
+/**
+ * An authorization server issuing codes for the PKCE challenge of the last
+ * authorization request.
+ */
+function provider() {
+  const server = {
+    codes: new Map(),
+    tokenRequests: [],
+
+    authorize(url) {
+      const params = new URL(url).searchParams;
+      const code = `code-${server.codes.size}`;
+      server.codes.set(code, {
+        challenge: params.get('code_challenge'),
+        redirectURI: params.get('redirect_uri'),
+      });
+      return {code, state: params.get('state')};
+    },
+
+    async fetch(input, init) {
+      const url = String(input);
+      if (url === 'https://idp.test/token') {
+        const body = new URLSearchParams(String(init.body));
+        server.tokenRequests.push({headers: init.headers, body});
+        const issued = server.codes.get(body.get('code'));
+        server.codes.delete(body.get('code'));
+        const verifier = body.get('code_verifier') ?? '';
+        if (
+          !issued ||
+          issued.redirectURI !== body.get('redirect_uri') ||
+          createHash('sha256').update(verifier).digest('base64url') !==
+            issued.challenge
+        ) {
+          return Response.json({error: 'invalid_grant'}, {status: 400});
+        }
+        return Response.json({access_token: 'at', token_type: 'Bearer'});
+      }
+      if (url === 'https://idp.test/userinfo') {
+        assert.equal(init.headers.Authorization, 'Bearer at');
+        return Response.json({sub: 'bob'});
+      }
+      throw new Error(`Unexpected request to ${url}`);
+    },
+  };
+  return server;
+}
+
+function setup(options = {}) {
+  const idp = provider();
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(
+    new OAuth2Strategy(
+      {
+        authorizationURL: 'https://idp.test/authorize',
+        tokenURL: 'https://idp.test/token',
+        profileURL: 'https://idp.test/userinfo',
+        clientID: 'client',
+        clientSecret: 'shh',
+        callbackURL: '/auth/callback',
+        scope: ['openid', 'profile'],
+        fetch: idp.fetch,
+        ...options,
+      },
+      async (tokens, profile) => ({user: {id: profile.sub}}),
+    ),
+  );
+  const middleware = passport.authenticate('oauth2', {successRedirect: '/'});
+
+  const browser = {
+    cookie: '',
+
+    async get(url) {
+      const res = await middleware(
+        new NextRequest(new URL(url, ORIGIN), {
+          headers: {cookie: browser.cookie},
+        }),
+      );
+      const setCookie = res.headers.get('set-cookie');
+      if (setCookie) {
+        browser.cookie = setCookie.split(';')[0];
+      }
+      return res;
+    },
+
+    async user() {
+      const session = await passport._sessionManager
+        .forRequest(
+          new NextRequest(ORIGIN, {headers: {cookie: browser.cookie}}),
+        )
+        .getSession();
+      return session.user;
+    },
+  };
+  return {idp, browser};
+}
+
+describe('OAuth2Strategy', function () {
+  it('redirects to the provider with a state and a PKCE challenge', async function () {
+    const {browser} = setup();
+    const res = await browser.get('/auth/login');
+    assert.equal(res.status, 302);
+
+    const url = new URL(res.headers.get('location'));
+    assert.equal(url.origin + url.pathname, 'https://idp.test/authorize');
+    assert.equal(url.searchParams.get('response_type'), 'code');
+    assert.equal(url.searchParams.get('client_id'), 'client');
+    assert.equal(
+      url.searchParams.get('redirect_uri'),
+      'https://app.test/auth/callback',
+    );
+    assert.equal(url.searchParams.get('scope'), 'openid profile');
+    assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+    assert.match(url.searchParams.get('code_challenge'), /^[\w-]{43}$/);
+    assert.ok(url.searchParams.get('state'));
+  });
+
+  it('exchanges the code with its verifier and logs the user in', async function () {
+    const {idp, browser} = setup();
+    const res = await browser.get('/auth/login');
+    const {code, state} = idp.authorize(res.headers.get('location'));
+
+    const callback = await browser.get(
+      `/auth/callback?code=${code}&state=${state}`,
+    );
+    assert.equal(callback.status, 307);
+    assert.equal(callback.headers.get('location'), 'https://app.test/');
+    assert.equal(await browser.user(), 'bob');
+
+    const [{headers, body}] = idp.tokenRequests;
+    assert.equal(headers.Authorization, `Basic ${btoa('client:shh')}`);
+    assert.equal(body.get('grant_type'), 'authorization_code');
+    assert.equal(body.get('redirect_uri'), 'https://app.test/auth/callback');
+  });
+
+  it('sends the client secret in the body with client_secret_post', async function () {
+    const {idp, browser} = setup({clientAuthentication: 'client_secret_post'});
+    const res = await browser.get('/auth/login');
+    const {code, state} = idp.authorize(res.headers.get('location'));
+
+    await browser.get(`/auth/callback?code=${code}&state=${state}`);
+    const [{headers, body}] = idp.tokenRequests;
+    assert.equal(headers.Authorization, undefined);
+    assert.equal(body.get('client_id'), 'client');
+    assert.equal(body.get('client_secret'), 'shh');
+  });
+
+  it('refuses a callback with another state', async function () {
+    const {idp, browser} = setup();
+    const res = await browser.get('/auth/login');
+    const {code} = idp.authorize(res.headers.get('location'));
+
+    const callback = await browser.get(`/auth/callback?code=${code}&state=x`);
+    assert.equal(callback.status, 403);
+    assert.equal(idp.tokenRequests.length, 0);
+    assert.equal(await browser.user(), undefined);
+  });
+
+  it('refuses a callback in a session that did not start the flow', async function () {
+    const {idp, browser} = setup();
+    const res = await browser.get('/auth/login');
+    const {code, state} = idp.authorize(res.headers.get('location'));
+
+    browser.cookie = '';
+    const callback = await browser.get(
+      `/auth/callback?code=${code}&state=${state}`,
+    );
+    assert.equal(callback.status, 403);
+    assert.equal(idp.tokenRequests.length, 0);
+  });
+
+  it('only accepts the state once', async function () {
+    const {idp, browser} = setup();
+    const res = await browser.get('/auth/login');
+    const {code, state} = idp.authorize(res.headers.get('location'));
+
+    await browser.get(`/auth/callback?code=${code}&state=${state}`);
+    const replay = await browser.get(
+      `/auth/callback?code=${code}&state=${state}`,
+    );
+    assert.equal(replay.status, 403);
+  });
+
+  it('fails when the user denies access', async function () {
+    const {browser} = setup();
+    await browser.get('/auth/login');
+    const res = await browser.get('/auth/callback?error=access_denied');
+    assert.equal(res.status, 401);
+  });
+});
@@ -0,0 +1,211 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, OpenIDConnectStrategy} from '../src/index.ts';
+
+const ORIGIN = 'https://app.test';
+const ISSUER = 'https://idp.test';
+
+const encode = value =>
+  Buffer.from(
+    value instanceof ArrayBuffer ? value : JSON.stringify(value),
+  ).toString('base64url');
+
+const RS256 = {
+  name: 'RSASSA-PKCS1-v1_5',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+/**
+ * An OpenID provider issuing an ID token for the nonce of the last
+ * authorization request, signed with its current key.
+ */
+async function provider() {
+  const keys = await crypto.subtle.generateKey(RS256, true, ['sign', 'verify']);
+  const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+
+  const server = {
+    requests: [],
+    metadata: {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+    },
+    // overrides of the claims of issued ID tokens
+    claims: {},
+
+    authorize(url) {
+      const params = new URL(url).searchParams;
+      server.nonce = params.get('nonce');
+      return {code: 'code', state: params.get('state')};
+    },
+
+    async idToken() {
+      const now = Math.floor(Date.now() / 1000);
+      const header = encode({alg: 'RS256', typ: 'JWT', kid: 'key'});
+      const payload = encode({
+        iss: ISSUER,
+        sub: 'bob',
+        aud: 'client',
+        iat: now,
+        exp: now + 60,
+        nonce: server.nonce,
+        ...server.claims,
+      });
+      const signature = await crypto.subtle.sign(
+        RS256,
+        keys.privateKey,
+        new TextEncoder().encode(`${header}.${payload}`),
+      );
+      return `${header}.${payload}.${encode(signature)}`;
+    },
+
+    async fetch(input) {
+      const url = String(input);
+      server.requests.push(url);
+      switch (url) {
+        case `${ISSUER}/.well-known/openid-configuration`:
+          return Response.json(server.metadata);
+        case `${ISSUER}/jwks`:
+          return Response.json({keys: [{...jwk, kid: 'key'}]});
+        case `${ISSUER}/token`:
+          return Response.json({
+            access_token: 'at',
+            token_type: 'Bearer',
+            id_token: await server.idToken(),
+          });
+      }
+      throw new Error(`Unexpected request to ${url}`);
+    },
+  };
+  return server;
+}
+
+async function setup() {
+  const idp = await provider();
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(
+    new OpenIDConnectStrategy(
+      {
+        issuer: ISSUER,
+        clientID: 'client',
+        clientSecret: 'shh',
+        callbackURL: '/auth/callback',
+        scope: 'email',
+        fetch: idp.fetch,
+      },
+      async (tokens, claims) => ({user: {id: claims.sub}}),
+    ),
+  );
+  const middleware = passport.authenticate('openidconnect', {
+    successRedirect: '/',
+  });
+
+  const browser = {
+    cookie: '',
+
+    async get(url) {
+      const res = await middleware(
+        new NextRequest(new URL(url, ORIGIN), {
+          headers: {cookie: browser.cookie},
+        }),
+      );
+      const setCookie = res.headers.get('set-cookie');
+      if (setCookie) {
+        browser.cookie = setCookie.split(';')[0];
+      }
+      return res;
+    },
+
+    // go through the flow, with the provider issuing what it is told to
+    async logIn() {
+      const res = await browser.get('/auth/login');
+      const {code, state} = idp.authorize(res.headers.get('location'));
+      return browser.get(`/auth/callback?code=${code}&state=${state}`);
+    },
+
+    async user() {
+      const session = await passport._sessionManager
+        .forRequest(
+          new NextRequest(ORIGIN, {headers: {cookie: browser.cookie}}),
+        )
+        .getSession();
+      return session.user;
+    },
+  };
+  return {idp, browser};
+}
+
+describe('OpenIDConnectStrategy', function () {
+  it('redirects to the discovered authorization endpoint with a nonce', async function () {
+    const {idp, browser} = await setup();
+    const res = await browser.get('/auth/login');
+
+    const url = new URL(res.headers.get('location'));
+    assert.equal(url.origin + url.pathname, `${ISSUER}/authorize`);
+    assert.equal(url.searchParams.get('scope'), 'openid email');
+    assert.ok(url.searchParams.get('nonce'));
+    assert.deepEqual(idp.requests, [
+      `${ISSUER}/.well-known/openid-configuration`,
+    ]);
+  });
+
+  it('logs the user in with a valid ID token', async function () {
+    const {idp, browser} = await setup();
+    const res = await browser.logIn();
+    assert.equal(res.headers.get('location'), 'https://app.test/');
+    assert.equal(await browser.user(), 'bob');
+
+    // the metadata is only discovered once
+    await browser.logIn();
+    assert.equal(
+      idp.requests.filter(url => url.includes('openid-configuration')).length,
+      1,
+    );
+  });
+
+  it('refuses an ID token with another nonce', async function () {
+    const {idp, browser} = await setup();
+    idp.claims = {nonce: 'other'};
+    const res = await browser.logIn();
+    assert.equal(res.status, 401);
+    assert.equal(await browser.user(), undefined);
+  });
+
+  it('refuses an ID token for another client', async function () {
+    const {idp, browser} = await setup();
+    idp.claims = {aud: 'other'};
+    const res = await browser.logIn();
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses an ID token from another issuer', async function () {
+    const {idp, browser} = await setup();
+    idp.claims = {iss: 'https://evil.test'};
+    const res = await browser.logIn();
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses an expired ID token', async function () {
+    const {idp, browser} = await setup();
+    idp.claims = {exp: Math.floor(Date.now() / 1000) - 120};
+    const res = await browser.logIn();
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses metadata naming another issuer', async function () {
+    const {idp, browser} = await setup();
+    idp.metadata.issuer = 'https://evil.test';
+    const res = await browser.get('/auth/login');
+    assert.equal(res.status, 500);
+
+    // and discovers it again on the next request
+    idp.metadata.issuer = ISSUER;
+    assert.equal((await browser.get('/auth/login')).status, 302);
+  });
+});
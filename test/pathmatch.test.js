@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator} from '../src/index.ts';
+import {compilePathPattern} from '../src/utils/pathmatch.ts';
+
+function matches(pattern, pathname) {
+  return compilePathPattern(pattern).test(pathname);
+}
+
+describe('compilePathPattern', function () {
+  const cases = [
+    ['/admin', '/admin', true],
+    ['/admin', '/admin/', true],
+    ['/admin', '/administrator', false],
+    ['/admin/*', '/admin/users', true],
+    ['/admin/*', '/admin/users/1', false],
+    ['/admin/**', '/admin', true],
+    ['/admin/**', '/admin/users/1', true],
+    ['/files/*.pdf', '/files/report.pdf', true],
+    ['/files/*.pdf', '/files/reportxpdf', false],
+    ['/users/[id]', '/users/1', true],
+    ['/users/[id]', '/users', false],
+    ['/users/:id', '/users/1', true],
+    ['/docs/[...slug]', '/docs/a/b', true],
+    ['/docs/[...slug]', '/docs', false],
+    ['/docs/[[...slug]]', '/docs', true],
+    ['/docs/:slug+', '/docs/a/b', true],
+    ['/docs/:slug*', '/docs', true],
+    ['/posts/:id?', '/posts', true],
+    ['/posts/:id?', '/posts/1/2', false],
+    ['/api/(v1|v2)/:path*', '/api/v2/users', true],
+    ['/api/(v1|v2)/:path*', '/api/v3/users', false],
+    [/^\/legacy/, '/legacy/page', true],
+  ];
+
+  for (const [pattern, pathname, expected] of cases) {
+    it(`${expected ? 'matches' : 'does not match'} ${pathname} with ${pattern}`, function () {
+      assert.equal(matches(pattern, pathname), expected);
+    });
+  }
+});
+
+describe('protect', function () {
+  function setup() {
+    const passport = new Authenticator({secret: 'x'.repeat(32)});
+    passport.serializeUser(async user => user.id);
+    passport.deserializeUser(async id => ({id}));
+    return passport.protect({
+      rules: [
+        {path: '/admin/**', redirectTo: '/login'},
+        {path: ['/api/:path*'], strategies: 'session'},
+      ],
+    });
+  }
+
+  it('applies the first rule that matches', async function () {
+    const protect = setup();
+    let res = await protect(new NextRequest('https://app.test/admin/users'));
+    assert.equal(res.status, 307);
+    assert.equal(res.headers.get('location'), 'https://app.test/login');
+
+    res = await protect(new NextRequest('https://app.test/api/users'));
+    assert.equal(res.status, 401);
+  });
+
+  it('lets requests matching no rule through', async function () {
+    const res = await setup()(new NextRequest('https://app.test/about'));
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+});
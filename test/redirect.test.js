@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, LocalStrategy, Strategy} from '../src/index.ts';
+import {isAllowedRedirect, resolveRedirect} from '../src/utils/redirect.ts';
+
+const ORIGIN = 'https://app.test';
+
+class RefusingStrategy extends Strategy {
+  constructor() {
+    super('refusing');
+  }
+
+  async authenticate() {
+    return this.fail();
+  }
+}
+
+function setup() {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(new RefusingStrategy());
+  passport.use(new LocalStrategy(async username => ({user: {id: username}})));
+
+  const browser = {
+    cookie: '',
+
+    async request(middleware, url, init = {}) {
+      const res = await middleware(
+        new NextRequest(new URL(url, ORIGIN), {
+          ...init,
+          headers: {cookie: browser.cookie, ...init.headers},
+        }),
+      );
+      const setCookie = res.headers.get('set-cookie');
+      if (setCookie) {
+        browser.cookie = setCookie.split(';')[0];
+      }
+      return res;
+    },
+
+    // log in through the form of the login page at `url`
+    async logIn(url, options = {}) {
+      const login = passport.authenticate('local', {
+        successReturnToOrRedirect: '/home',
+        csrf: false,
+        ...options,
+      });
+      return browser.request(login, url, {
+        method: 'POST',
+        headers: {'content-type': 'application/x-www-form-urlencoded'},
+        body: 'username=bob&password=secret',
+      });
+    },
+  };
+  return {passport, browser};
+}
+
+describe('returnTo', function () {
+  it('brings the user back to the page they asked for', async function () {
+    const {passport, browser} = setup();
+    const protect = passport.authenticate('refusing', {
+      failureRedirect: '/login',
+    });
+    const res = await browser.request(protect, '/account?tab=security');
+    assert.equal(res.headers.get('location'), `${ORIGIN}/login`);
+
+    const login = await browser.logIn('/login');
+    assert.equal(
+      login.headers.get('location'),
+      `${ORIGIN}/account?tab=security`,
+    );
+  });
+
+  it('saves the returnTo of a query parameter on the same site', async function () {
+    const {browser} = setup();
+    const res = await browser.logIn('/login?next=/billing', {
+      returnToParam: 'next',
+    });
+    assert.equal(res.headers.get('location'), `${ORIGIN}/billing`);
+  });
+
+  for (const next of [
+    'https://evil.test/',
+    '//evil.test/',
+    '/\\evil.test/',
+    'javascript:alert(1)',
+  ]) {
+    it(`does not redirect to ${next}`, async function () {
+      const {browser} = setup();
+      const res = await browser.logIn(
+        `/login?next=${encodeURIComponent(next)}`,
+        {returnToParam: 'next'},
+      );
+      assert.equal(res.headers.get('location'), `${ORIGIN}/home`);
+    });
+  }
+
+  it('redirects to the allowed origins', async function () {
+    const {browser} = setup();
+    const res = await browser.logIn(
+      `/login?next=${encodeURIComponent('https://admin.app.test/users')}`,
+      {
+        returnToParam: 'next',
+        allowedRedirectOrigins: ['https://admin.app.test'],
+      },
+    );
+    assert.equal(res.headers.get('location'), 'https://admin.app.test/users');
+  });
+});
+
+describe('resolveRedirect', function () {
+  const req = new NextRequest(`${ORIGIN}/account/settings`);
+
+  it('resolves paths against the request', function () {
+    assert.equal(resolveRedirect('/login', req).href, `${ORIGIN}/login`);
+    assert.equal(
+      resolveRedirect('profile?tab=1', req).href,
+      `${ORIGIN}/account/profile?tab=1`,
+    );
+  });
+
+  it('keeps absolute and protocol-relative URLs as such', function () {
+    const url = resolveRedirect('//evil.test/x', req);
+    assert.equal(url.hostname, 'evil.test');
+    assert.equal(isAllowedRedirect(url, req), false);
+  });
+});
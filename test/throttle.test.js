@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, LocalStrategy} from '../src/index.ts';
+
+const PASSWORDS = {alice: 'alice-password', mallory: 'mallory-password'};
+
+function setup(throttle) {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.use(
+    new LocalStrategy(async (username, password) => ({
+      user: PASSWORDS[username] === password && {id: username},
+    })),
+  );
+  const middleware = passport.authenticate('local', {
+    session: false,
+    csrf: false,
+    throttle: {delay: 60, ...throttle},
+  });
+
+  return (username, password, {ip, forwardedFor} = {}) =>
+    middleware(
+      new NextRequest('https://app.test/login', {
+        method: 'POST',
+        ip,
+        headers: {
+          'content-type': 'application/json',
+          ...(forwardedFor && {'x-forwarded-for': forwardedFor}),
+        },
+        body: JSON.stringify({username, password}),
+      }),
+    );
+}
+
+describe('throttle', function () {
+  it('refuses attempts beyond the free ones with a delay', async function () {
+    const logIn = setup({freeAttempts: 2});
+    const ip = '203.0.113.1';
+
+    assert.equal((await logIn('alice', 'guess', {ip})).status, 401);
+    assert.equal((await logIn('alice', 'guess', {ip})).status, 401);
+    const res = await logIn('alice', PASSWORDS.alice, {ip});
+    assert.equal(res.status, 429);
+    assert.equal(res.headers.get('retry-after'), '60');
+    assert.equal(res.headers.get('www-authenticate'), null);
+    assert.deepEqual(await res.json(), {
+      error: 'Too many failed attempts, try again later',
+    });
+
+    // other clients are not delayed
+    const other = await logIn('alice', PASSWORDS.alice, {ip: '203.0.113.2'});
+    assert.equal(other.headers.get('x-middleware-next'), '1');
+  });
+
+  it('resets the count of an account when it logs in', async function () {
+    const logIn = setup({ip: false, identifier: 'username', freeAttempts: 3});
+
+    for (let round = 0; round < 2; round++) {
+      assert.equal((await logIn('Alice', 'guess')).status, 401);
+      assert.equal((await logIn('alice', 'guess')).status, 401);
+      const res = await logIn('alice', PASSWORDS.alice);
+      assert.equal(res.headers.get('x-middleware-next'), '1');
+    }
+  });
+
+  it('keeps the count of an address when it logs into its own account', async function () {
+    const logIn = setup({identifier: 'username', freeAttempts: 3});
+    const ip = '203.0.113.1';
+
+    assert.equal((await logIn('alice', 'guess', {ip})).status, 401);
+    assert.equal((await logIn('bob', 'guess', {ip})).status, 401);
+    const own = await logIn('mallory', PASSWORDS.mallory, {ip});
+    assert.equal(own.headers.get('x-middleware-next'), '1');
+    assert.equal((await logIn('carol', 'guess', {ip})).status, 401);
+
+    const res = await logIn('mallory', PASSWORDS.mallory, {ip});
+    assert.equal(res.status, 429);
+  });
+
+  it('does not count clients of unknown addresses together', async function () {
+    const logIn = setup({identifier: 'username', freeAttempts: 2});
+
+    assert.equal((await logIn('alice', 'guess')).status, 401);
+    assert.equal((await logIn('bob', 'guess')).status, 401);
+    assert.equal((await logIn('carol', 'guess')).status, 401);
+    const res = await logIn('mallory', PASSWORDS.mallory);
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+
+    // while their accounts are still counted
+    assert.equal((await logIn('alice', 'guess')).status, 401);
+    assert.equal((await logIn('alice', PASSWORDS.alice)).status, 429);
+  });
+
+  it('takes the address appended by the trusted proxy', async function () {
+    const logIn = setup({trustProxy: 1, freeAttempts: 2});
+
+    assert.equal(
+      (await logIn('alice', 'guess', {forwardedFor: '10.0.0.1, 203.0.113.1'}))
+        .status,
+      401,
+    );
+    assert.equal(
+      (await logIn('alice', 'guess', {forwardedFor: '10.0.0.2, 203.0.113.1'}))
+        .status,
+      401,
+    );
+
+    let res = await logIn('alice', PASSWORDS.alice, {
+      forwardedFor: '10.0.0.3, 203.0.113.1',
+    });
+    assert.equal(res.status, 429);
+    res = await logIn('alice', PASSWORDS.alice, {
+      forwardedFor: '203.0.113.1, 203.0.113.2',
+    });
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+});
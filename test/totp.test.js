@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {
+  Authenticator,
+  TotpStrategy,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  totpStep,
+  verifyRecoveryCode,
+  verifyTotp,
+} from '../src/index.ts';
+
+// the seeds of RFC 6238 appendix B, encoded in base32
+const SECRETS = {
+  'SHA-1': 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+  'SHA-256': 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA',
+  'SHA-512':
+    'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA',
+};
+
+const VECTORS = [
+  [59, '94287082', '46119246', '90693936'],
+  [1111111109, '07081804', '68084774', '25091201'],
+  [1111111111, '14050471', '67062674', '99943326'],
+  [1234567890, '89005924', '91819424', '93441116'],
+  [2000000000, '69279037', '90698825', '38618901'],
+  [20000000000, '65353130', '77737706', '47863826'],
+];
+
+describe('TOTP', function () {
+  describe('generateTotp', function () {
+    for (const [time, sha1, sha256, sha512] of VECTORS) {
+      it(`matches the RFC 6238 codes at ${time}`, async function () {
+        const step = totpStep({}, time * 1000);
+        const codes = await Promise.all(
+          ['SHA-1', 'SHA-256', 'SHA-512'].map(algorithm =>
+            generateTotp(SECRETS[algorithm], step, {digits: 8, algorithm}),
+          ),
+        );
+        assert.deepEqual(codes, [sha1, sha256, sha512]);
+      });
+    }
+  });
+
+  describe('verifyTotp', function () {
+    const secret = SECRETS['SHA-1'];
+    const now = 1111111109 * 1000;
+
+    it('accepts the codes of adjacent steps', async function () {
+      const step = totpStep({}, now);
+      const previous = await generateTotp(secret, step - 1);
+      assert.equal(await verifyTotp(secret, previous, {}, now), step - 1);
+    });
+
+    it('refuses codes outside the window', async function () {
+      const step = totpStep({}, now);
+      const old = await generateTotp(secret, step - 2);
+      assert.equal(await verifyTotp(secret, old, {}, now), undefined);
+    });
+
+    it('refuses a code already used', async function () {
+      const step = totpStep({}, now);
+      const code = await generateTotp(secret, step);
+      assert.equal(
+        await verifyTotp(secret, code, {lastStep: step}, now),
+        undefined,
+      );
+    });
+  });
+
+  describe('recovery codes', function () {
+    it('carries 80 bits of entropy in each code', async function () {
+      const {codes} = await generateRecoveryCodes(1);
+      assert.match(codes[0], /^[a-z2-7]{4}(-[a-z2-7]{4}){3}$/);
+    });
+
+    it('finds a code however it is typed, once salted', async function () {
+      const {codes, hashes} = await generateRecoveryCodes(3);
+      const typed = codes[1].toUpperCase().replace(/-/g, ' ');
+      assert.equal(await verifyRecoveryCode(typed, hashes), 1);
+      assert.equal(await verifyRecoveryCode('aaaa-bbbb-cccc-dddd', hashes), -1);
+      assert.notEqual(
+        await hashRecoveryCode(codes[0]),
+        await hashRecoveryCode(codes[0]),
+      );
+    });
+  });
+});
+
+describe('TotpStrategy', function () {
+  const secret = SECRETS['SHA-1'];
+
+  // a credential store that only saves a step over the one it was read with
+  function setup() {
+    const credential = {secret};
+    const passport = new Authenticator({secret: 'x'.repeat(32)});
+    passport.serializeUser(async user => user.id);
+    passport.deserializeUser(async id => ({id}));
+    passport.use(
+      new TotpStrategy(
+        {
+          saveLastStep: async (user, step, previousStep) => {
+            if (credential.lastStep !== previousStep) {
+              return false;
+            }
+            credential.lastStep = step;
+            return true;
+          },
+        },
+        // each request reads the credential before either saves its step
+        async () => {
+          await new Promise(resolve => setImmediate(resolve));
+          return {...credential};
+        },
+      ),
+    );
+    return passport;
+  }
+
+  async function pendingSession(passport) {
+    const manager = passport._sessionManager.forRequest(
+      new NextRequest('https://app.test/'),
+    );
+    await manager.logIn({id: 'bob'}, undefined, {
+      method: 'local',
+      partial: true,
+    });
+    return manager
+      .commit(new Response())
+      .headers.get('set-cookie')
+      .split(';')[0];
+  }
+
+  function submit(passport, cookie, code) {
+    return passport.authenticate('totp', {csrf: false})(
+      new NextRequest('https://app.test/mfa', {
+        method: 'POST',
+        headers: {cookie, 'content-type': 'application/json'},
+        body: JSON.stringify({code}),
+      }),
+    );
+  }
+
+  it('completes the login of a user awaiting a second factor', async function () {
+    const passport = setup();
+    const cookie = await pendingSession(passport);
+    const res = await submit(
+      passport,
+      cookie,
+      await generateTotp(secret, totpStep()),
+    );
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+  });
+
+  it('accepts a code submitted twice at once only once', async function () {
+    const passport = setup();
+    const cookie = await pendingSession(passport);
+    const code = await generateTotp(secret, totpStep());
+    const results = await Promise.all([
+      submit(passport, cookie, code),
+      submit(passport, cookie, code),
+    ]);
+    assert.deepEqual(results.map(res => res.status).sort(), [200, 401]);
+  });
+});
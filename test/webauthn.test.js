@@ -0,0 +1,401 @@
+import assert from 'node:assert/strict';
+import {NextRequest} from 'next/server';
+
+import {Authenticator, WebAuthnStrategy} from '../src/index.ts';
+
+const ORIGIN = 'https://app.test';
+
+const b64 = bytes => Buffer.from(bytes).toString('base64url');
+const unb64 = text => new Uint8Array(Buffer.from(text, 'base64url'));
+
+async function sha256(data) {
+  return new Uint8Array(
+    await crypto.subtle.digest(
+      'SHA-256',
+      typeof data === 'string' ? Buffer.from(data) : data,
+    ),
+  );
+}
+
+// just enough CBOR to encode attestation objects and COSE keys
+function cborHead(major, n) {
+  if (n < 24) {
+    return [(major << 5) | n];
+  }
+  if (n < 256) {
+    return [(major << 5) | 24, n];
+  }
+  return [(major << 5) | 25, n >> 8, n & 255];
+}
+
+function cbor(value) {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value);
+    return [...cborHead(3, bytes.length), ...bytes];
+  }
+  if (value instanceof Uint8Array) {
+    return [...cborHead(2, value.length), ...value];
+  }
+  const out = cborHead(5, value.size);
+  for (const [key, item] of value) {
+    out.push(...cbor(key), ...cbor(item));
+  }
+  return out;
+}
+
+// ECDSA signatures are DER encoded in WebAuthn, rather than raw as in Web
+// Crypto
+function derSignature(raw) {
+  const integer = bytes => {
+    let i = 0;
+    while (i < bytes.length - 1 && bytes[i] === 0) {
+      i++;
+    }
+    bytes = bytes.slice(i);
+    if (bytes[0] & 0x80) {
+      bytes = new Uint8Array([0, ...bytes]);
+    }
+    return [2, bytes.length, ...bytes];
+  };
+  const body = [...integer(raw.slice(0, 32)), ...integer(raw.slice(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+const ALGORITHMS = {
+  ES256: {
+    cose: -7,
+    params: {name: 'ECDSA', namedCurve: 'P-256'},
+    sign: {name: 'ECDSA', hash: 'SHA-256'},
+    coseKey: jwk =>
+      new Map([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, unb64(jwk.x)],
+        [-3, unb64(jwk.y)],
+      ]),
+  },
+  EdDSA: {
+    cose: -8,
+    params: {name: 'Ed25519'},
+    sign: {name: 'Ed25519'},
+    coseKey: jwk =>
+      new Map([
+        [1, 1],
+        [3, -8],
+        [-1, 6],
+        [-2, unb64(jwk.x)],
+      ]),
+  },
+  RS256: {
+    cose: -257,
+    params: {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    sign: {name: 'RSASSA-PKCS1-v1_5'},
+    coseKey: jwk =>
+      new Map([
+        [1, 3],
+        [3, -257],
+        [-1, unb64(jwk.n)],
+        [-2, unb64(jwk.e)],
+      ]),
+  },
+};
+
+/**
+ * A platform authenticator holding a single credential, which answers
+ * ceremony options as `navigator.credentials` would.
+ */
+class SoftAuthenticator {
+  constructor(alg) {
+    this.alg = ALGORITHMS[alg];
+    this.id = crypto.getRandomValues(new Uint8Array(16));
+    this.counter = 0;
+  }
+
+  async init() {
+    this.keys = await crypto.subtle.generateKey(this.alg.params, true, [
+      'sign',
+      'verify',
+    ]);
+    const jwk = await crypto.subtle.exportKey('jwk', this.keys.publicKey);
+    this.coseKey = this.alg.coseKey(jwk);
+    return this;
+  }
+
+  async create(options) {
+    const clientData = this._clientData('webauthn.create', options.challenge);
+    const authData = await this._authData(options.rp.id, true);
+    const attestation = new Map([
+      ['fmt', 'none'],
+      ['attStmt', new Map()],
+      ['authData', authData],
+    ]);
+    return {
+      id: b64(this.id),
+      rawId: b64(this.id),
+      type: 'public-key',
+      response: {
+        clientDataJSON: b64(clientData),
+        attestationObject: b64(new Uint8Array(cbor(attestation))),
+        transports: ['internal'],
+      },
+    };
+  }
+
+  async get(options, userHandle) {
+    const clientData = this._clientData('webauthn.get', options.challenge);
+    const authData = await this._authData(options.rpId, false);
+    const signed = new Uint8Array([...authData, ...(await sha256(clientData))]);
+    let signature = new Uint8Array(
+      await crypto.subtle.sign(this.alg.sign, this.keys.privateKey, signed),
+    );
+    if (this.alg.cose === -7) {
+      signature = derSignature(signature);
+    }
+    return {
+      id: b64(this.id),
+      rawId: b64(this.id),
+      type: 'public-key',
+      response: {
+        clientDataJSON: b64(clientData),
+        authenticatorData: b64(authData),
+        signature: b64(signature),
+        userHandle: userHandle && b64(Buffer.from(userHandle)),
+      },
+    };
+  }
+
+  _clientData(type, challenge) {
+    return new Uint8Array(
+      Buffer.from(JSON.stringify({type, challenge, origin: ORIGIN})),
+    );
+  }
+
+  // flagged as user present and verified, with the credential attached when
+  // it is being created
+  async _authData(rpId, attested) {
+    const counter = ++this.counter;
+    const out = [
+      ...(await sha256(rpId)),
+      attested ? 0x45 : 0x05,
+      (counter >>> 24) & 255,
+      (counter >> 16) & 255,
+      (counter >> 8) & 255,
+      counter & 255,
+    ];
+    if (attested) {
+      out.push(...new Uint8Array(16), 0, this.id.length, ...this.id);
+      out.push(...cbor(this.coseKey));
+    }
+    return new Uint8Array(out);
+  }
+}
+
+function credentialRepository() {
+  const credentials = new Map();
+  return {
+    async find(id) {
+      const found = credentials.get(id);
+      return found && {credential: {...found.credential}, user: found.user};
+    },
+    async listByUser(user) {
+      return [...credentials.values()]
+        .filter(found => found.user.id === user.id)
+        .map(found => found.credential);
+    },
+    async create(user, credential) {
+      credentials.set(credential.id, {credential, user});
+    },
+    async updateCounter(id, counter) {
+      credentials.get(id).credential.counter = counter;
+    },
+  };
+}
+
+/**
+ * A browser posting to a route authenticating with `WebAuthnStrategy`,
+ * keeping the session cookie between requests.
+ */
+function setup({csrf = false} = {}) {
+  const passport = new Authenticator({secret: 'x'.repeat(32)});
+  passport.serializeUser(async user => user.id);
+  passport.deserializeUser(async id => ({id}));
+  passport.use(
+    new WebAuthnStrategy({
+      rpName: 'Test',
+      credentials: credentialRepository(),
+      userEntity: user => ({id: user.id, name: `${user.id}@app.test`}),
+      userVerification: 'required',
+    }),
+  );
+  const middleware = passport.authenticate('webauthn', {csrf});
+
+  const browser = {
+    cookie: '',
+
+    async post(body, headers = {}) {
+      const res = await middleware(
+        new NextRequest(`${ORIGIN}/auth/passkey`, {
+          method: 'POST',
+          headers: {
+            cookie: browser.cookie,
+            'content-type': 'application/json',
+            origin: ORIGIN,
+            ...headers,
+          },
+          body: JSON.stringify(body),
+        }),
+      );
+      const setCookie = res.headers.get('set-cookie');
+      if (setCookie) {
+        browser.cookie = setCookie.split(';')[0];
+      }
+      return res;
+    },
+
+    async logIn(user, options) {
+      const manager = passport._sessionManager.forRequest(
+        new NextRequest(ORIGIN, {headers: {cookie: browser.cookie}}),
+      );
+      await manager.logIn(user, undefined, options);
+      const res = manager.commit(new Response());
+      browser.cookie = res.headers.get('set-cookie').split(';')[0];
+    },
+
+    async impersonate(user) {
+      const manager = passport._sessionManager.forRequest(
+        new NextRequest(ORIGIN, {headers: {cookie: browser.cookie}}),
+      );
+      await manager.impersonate(user);
+      const res = manager.commit(new Response());
+      browser.cookie = res.headers.get('set-cookie').split(';')[0];
+    },
+
+    async session() {
+      return passport._sessionManager
+        .forRequest(
+          new NextRequest(ORIGIN, {headers: {cookie: browser.cookie}}),
+        )
+        .getSession();
+    },
+  };
+  return browser;
+}
+
+describe('WebAuthnStrategy', function () {
+  for (const alg of Object.keys(ALGORITHMS)) {
+    it(`registers an ${alg} passkey and logs in with it`, async function () {
+      const browser = setup();
+      const authenticator = await new SoftAuthenticator(alg).init();
+      await browser.logIn({id: 'bob'});
+
+      let res = await browser.post({ceremony: 'registration'});
+      assert.equal(res.status, 200);
+      const creation = await res.json();
+      assert.equal(creation.rp.id, 'app.test');
+      assert.deepEqual(creation.pubKeyCredParams, [
+        {type: 'public-key', alg: -7},
+        {type: 'public-key', alg: -8},
+        {type: 'public-key', alg: -257},
+      ]);
+
+      const credential = await authenticator.create(creation);
+      res = await browser.post(credential);
+      assert.equal(res.status, 201);
+      assert.deepEqual(await res.json(), {id: credential.id});
+
+      // a new browser, which only has the passkey
+      browser.cookie = '';
+      res = await browser.post({});
+      assert.equal(res.status, 200);
+      const request = await res.json();
+      res = await browser.post(await authenticator.get(request, 'bob'));
+      assert.equal(res.headers.get('x-middleware-next'), '1');
+      assert.equal((await browser.session()).user, 'bob');
+    });
+  }
+
+  it('refuses an assertion replaying a used challenge', async function () {
+    const browser = setup();
+    const authenticator = await new SoftAuthenticator('ES256').init();
+    await browser.logIn({id: 'bob'});
+    const creation = await (
+      await browser.post({ceremony: 'registration'})
+    ).json();
+    await browser.post(await authenticator.create(creation));
+
+    const request = await (await browser.post({})).json();
+    const assertion = await authenticator.get(request);
+    await browser.post(assertion);
+    const res = await browser.post(assertion);
+    assert.equal(res.status, 400);
+  });
+
+  it('refuses to register passkeys while a second factor is pending', async function () {
+    const browser = setup();
+    const authenticator = await new SoftAuthenticator('ES256').init();
+    await browser.logIn({id: 'bob'}, {method: 'password', partial: true});
+    assert.equal((await browser.session()).pendingUser, 'bob');
+
+    let res = await browser.post({ceremony: 'registration'});
+    assert.equal(res.status, 401);
+
+    // nor with options obtained while fully logged in
+    browser.cookie = '';
+    await browser.logIn({id: 'bob'});
+    const creation = await (
+      await browser.post({ceremony: 'registration'})
+    ).json();
+    await browser.logIn({id: 'bob'}, {partial: true, keepSessionInfo: true});
+    assert.equal((await browser.session()).pendingUser, 'bob');
+    res = await browser.post(await authenticator.create(creation));
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses to register passkeys to an impersonated user', async function () {
+    const browser = setup();
+    await browser.logIn({id: 'admin'});
+    await browser.impersonate({id: 'bob'});
+    assert.equal((await browser.session()).user, 'bob');
+
+    const res = await browser.post({ceremony: 'registration'});
+    assert.equal(res.status, 401);
+  });
+
+  it('hands out the CSRF token with the options of a first visit', async function () {
+    const browser = setup({csrf: true});
+    const authenticator = await new SoftAuthenticator('ES256').init();
+    await browser.logIn({id: 'bob'});
+    const {csrfToken} = await browser.session();
+    const creation = await (
+      await browser.post(
+        {ceremony: 'registration'},
+        {'x-csrf-token': csrfToken},
+      )
+    ).json();
+    assert.equal(creation.csrfToken, csrfToken);
+    await browser.post(await authenticator.create(creation), {
+      'x-csrf-token': csrfToken,
+    });
+
+    browser.cookie = '';
+    let res = await browser.post({});
+    assert.equal(res.status, 200);
+    const request = await res.json();
+    const assertion = await authenticator.get(request);
+
+    res = await browser.post(assertion);
+    assert.equal(res.status, 403);
+    res = await browser.post(assertion, {'x-csrf-token': request.csrfToken});
+    assert.equal(res.headers.get('x-middleware-next'), '1');
+    assert.equal((await browser.session()).user, 'bob');
+  });
+});